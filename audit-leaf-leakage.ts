@@ -0,0 +1,207 @@
+#!/usr/bin/env node
+
+// NATS Leaf Leakage Audit
+// Reads the main and leaf configs (no server needed) and reports, per user, which main-cluster
+// subjects become reachable through the leaf link although main's own policy denies them
+
+import { createHash } from "crypto";
+import { readFileSync, writeFileSync } from "fs";
+import { ClusterInfo, listClusters, listUsers, listLinkIdentities, getCluster } from "./nats-topology.js";
+import { loadNatsConfig } from "./nats-config.js";
+import { AuditTarget, LeafLink, LeakageAudit, LinkFilter, SubjectReach, UserLeakage, auditLeafLeakage, listEscalations } from "./nats-leaf-audit.js";
+import { describePermissionSet } from "./nats-permissions.js";
+
+interface AuditOptions {
+  main?: string;
+  leaves: string[];
+  report?: string;
+  strict: boolean;
+}
+
+function toTarget(cluster: ClusterInfo): AuditTarget {
+  return { name: cluster.name, configFile: cluster.configFile, config: loadNatsConfig(cluster.configFile) };
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function userLabel(user: UserLeakage): string {
+  return user.name ? `${user.name} (${user.identity})` : `${user.identity} (not in topology)`;
+}
+
+function describeFilters(filters: LinkFilter[]): string {
+  return filters.length === 0
+    ? "everything (no link permissions)"
+    : filters.map(f => `${describePermissionSet(f.set)} [${f.source}]`).join(" AND ");
+}
+
+function describeLink(audit: LeakageAudit): string[] {
+  const link: LeafLink | null = audit.link;
+  if (!link) {
+    return [`No leafnode remote connects ${audit.main} and ${audit.leaf}: nothing can leak`];
+  }
+  return [
+    `${link.solicitedBy} dials ${link.url}`,
+    `${audit.leaf} -> ${audit.main} (leaf publishes):   ${describeFilters(link.toMain)}`,
+    `${audit.main} -> ${audit.leaf} (leaf subscribes): ${describeFilters(link.toLeaf)}`
+  ];
+}
+
+function cell(reach: SubjectReach | undefined): string {
+  if (!reach) return "-";
+  const main = reach.main.allowed ? "✅" : "🚫";
+  const leaf = reach.viaLeaf ? "✅" : "🚫";
+  return `${main} / ${leaf}${reach.escalation ? " ⬆️" : ""}`;
+}
+
+function printUser(audit: LeakageAudit, user: UserLeakage) {
+  const escalations = user.reach.filter(r => r.escalation);
+  console.log(`\n👤 ${userLabel(user)}${escalations.length > 0 ? ` - ${escalations.length} escalation(s)` : ""}`);
+  if (!user.mainMapped) console.log(`   ⚠️  No user entry on ${audit.main}: verify_and_map rejects it there`);
+  if (!user.leafMapped) console.log(`   ⚠️  No user entry on ${audit.leaf}: verify_and_map rejects it there`);
+
+  console.log(`   ${"Subject".padEnd(18)}${"publish main/leaf".padEnd(22)}subscribe main/leaf`);
+  for (const subject of audit.subjects) {
+    const publish = user.reach.find(r => r.op === "publish" && r.subject === subject);
+    const subscribe = user.reach.find(r => r.op === "subscribe" && r.subject === subject);
+    const label = subject === ">" ? "> (anything else)" : subject;
+    console.log(`   ${label.padEnd(18)}${cell(publish).padEnd(22)}${cell(subscribe)}`);
+  }
+}
+
+function printAudit(audit: LeakageAudit) {
+  console.log(`\n🔗 ${audit.main} <-> ${audit.leaf}`);
+  console.log("=".repeat(60));
+  for (const line of describeLink(audit)) {
+    console.log(`   ${line}`);
+  }
+  for (const user of audit.users) {
+    printUser(audit, user);
+  }
+}
+
+// Stable over runs: same configs and same findings give the same digest to sign against
+function findingsDigest(audits: LeakageAudit[]): string {
+  const findings = audits.flatMap(audit => listEscalations(audit).map(e => `${audit.main}<-${audit.leaf} ${e.identity} ${e.op} ${e.subject}`));
+  return sha256(findings.sort().join("\n"));
+}
+
+function renderReport(targets: AuditTarget[], audits: LeakageAudit[]): string {
+  const lines: string[] = [
+    "# Leaf Permission Leakage Audit",
+    "",
+    `Generated: ${new Date().toISOString()}`,
+    "",
+    "## Inputs",
+    "",
+    "| Cluster | Config | sha256 |",
+    "|---------|--------|--------|",
+    ...targets.map(t => `| ${t.name} | \`${t.configFile}\` | \`${sha256(readFileSync(t.configFile, "utf8"))}\` |`),
+    ""
+  ];
+
+  for (const audit of audits) {
+    lines.push(`## ${audit.main} <-> ${audit.leaf}`, "");
+    lines.push(...describeLink(audit).map(line => `- ${line}`), "");
+
+    const escalations = listEscalations(audit);
+    if (escalations.length === 0) {
+      lines.push("No escalations: every subject reachable through the leaf is also allowed on main.", "");
+      continue;
+    }
+
+    lines.push("| User | Operation | Subject | Main decision |", "|------|-----------|---------|---------------|");
+    for (const e of escalations) {
+      const user = audit.users.find(u => u.identity === e.identity)!;
+      const why = !user.mainMapped ? "identity rejected" : e.main.deniedBy ? `denied by \`${e.main.deniedBy}\`` : "no allow rule matches";
+      lines.push(`| ${userLabel(user)} | ${e.op} | \`${e.subject}\` | ${why} |`);
+    }
+    lines.push("");
+  }
+
+  lines.push(
+    "## Sign-off",
+    "",
+    `Findings digest: \`sha256:${findingsDigest(audits)}\``,
+    "",
+    "Every escalation above is intended and accepted.",
+    "",
+    "Reviewed by: ____________________  Date: ____________",
+    ""
+  );
+  return lines.join("\n");
+}
+
+function parseArgs(args: string[]): AuditOptions {
+  const options: AuditOptions = { leaves: [], strict: false };
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--main":
+        options.main = args[++i];
+        break;
+      case "--leaf":
+        options.leaves.push(args[++i]);
+        break;
+      case "--report":
+        options.report = args[++i];
+        break;
+      case "--strict":
+        options.strict = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${args[i]}`);
+    }
+  }
+  return options;
+}
+
+function showUsage() {
+  console.log("Usage:");
+  console.log("  npx tsx audit-leaf-leakage.ts [--main <cluster>] [--leaf <cluster>]... [--report <file.md>] [--strict]");
+  console.log("      --main defaults to the first topology cluster, --leaf to all the others");
+  console.log("      --report writes a markdown report with a findings digest to sign off");
+  console.log("      --strict exits 1 if any escalation is found");
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  if (args.includes("--help") || args.includes("-h")) {
+    showUsage();
+    return;
+  }
+  const options = parseArgs(args);
+
+  const mainCluster = options.main ? getCluster(options.main) : listClusters()[0];
+  const leafClusters = options.leaves.length > 0
+    ? options.leaves.map(name => getCluster(name))
+    : listClusters().filter(c => c.name !== mainCluster.name);
+
+  console.log("🚀 NATS Leaf Leakage Audit");
+  console.log("==========================");
+  console.log("Cells: main / via leaf (✅ reachable, 🚫 not), ⬆️ = reachable only through the leaf");
+
+  const mainTarget = toTarget(mainCluster);
+  const leafTargets = leafClusters.map(toTarget);
+  const audits = leafTargets.map(leaf => auditLeafLeakage(mainTarget, leaf, listUsers(), listLinkIdentities()));
+  audits.forEach(printAudit);
+
+  const escalations = audits.flatMap(listEscalations);
+  const users = new Set(escalations.map(e => e.identity));
+  console.log(`\n📊 ${escalations.length} escalation(s) for ${users.size} user(s) across ${audits.length} leaf link(s)`);
+  console.log(`📋 Findings digest: sha256:${findingsDigest(audits)}`);
+
+  if (options.report) {
+    writeFileSync(options.report, renderReport([mainTarget, ...leafTargets], audits));
+    console.log(`📝 Report written to ${options.report}`);
+  }
+
+  process.exit(options.strict && escalations.length > 0 ? 1 : 0);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
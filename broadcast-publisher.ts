@@ -4,45 +4,23 @@
 // Tests broadcasting messages to multiple subscribers with different permission levels
 // Demonstrates how leaf node architecture solves the broadcasting edge case
 
-import { connect, ConnectionOptions, NatsConnection } from "nats";
-import { readFileSync } from "fs";
-
-interface UserConfig {
-  name: string;
-  certFile: string;
-  keyFile: string;
-  caFile: string;
-}
-
-interface ClusterInfo {
-  name: string;
-  url: string;
-  monitoring: string;
-  description: string;
-}
+import { connect, ConnectionOptions, MsgHdrs, NatsConnection, nuid } from "nats";
+import { UserConfig, ClusterInfo, listClusters, findUser, findCluster, buildConnectionOptions } from "./nats-topology.js";
+import { classifyNatsError } from "./nats-errors.js";
+import { emit, initEventOutput, isJsonMode } from "./nats-events.js";
+import { stampMessageId } from "./nats-dedup.js";
+import { envelopeHeaders } from "./nats-envelope.js";
+import { CODEC_USAGE, CodecArgs, PayloadCodec, parseCodecArgs, withContentType } from "./nats-codecs.js";
 
 class BroadcastPublisher {
   private config: UserConfig;
   private nc: NatsConnection | null = null;
   private connectedCluster: ClusterInfo | null = null;
 
-  // Define available clusters (same as subscriber)
-  private clusters: ClusterInfo[] = [
-    {
-      name: "main",
-      url: "tls://localhost:4222",
-      monitoring: "http://localhost:8222",
-      description: "Main restrictive cluster"
-    },
-    {
-      name: "leaf",
-      url: "tls://localhost:4223", 
-      monitoring: "http://localhost:8223",
-      description: "Leaf broadcast relay cluster"
-    }
-  ];
+  // Available clusters, in order of preference (see nats-topology.json)
+  private clusters: ClusterInfo[] = listClusters();
 
-  constructor(config: UserConfig) {
+  constructor(config: UserConfig, private codec: PayloadCodec) {
     this.config = config;
   }
 
@@ -59,26 +37,22 @@ class BroadcastPublisher {
       console.log(`   URL: ${cluster.url}`);
       
       try {
-        const opts: ConnectionOptions = {
-          servers: [cluster.url],
-          tls: {
-            cert: readFileSync(this.config.certFile),
-            key: readFileSync(this.config.keyFile),
-            ca: readFileSync(this.config.caFile)
-          },
-          name: `${this.config.name}_broadcast_publisher`,
-          timeout: 5000
-        };
+        const opts: ConnectionOptions = buildConnectionOptions(this.config, cluster, {
+          name: `${this.config.name}_broadcast_publisher`
+        });
 
         this.nc = await connect(opts);
         this.connectedCluster = cluster;
         
         console.log(`✅ Connected to ${cluster.name} cluster as ${this.config.name}`);
         console.log(`   Monitoring: ${cluster.monitoring}`);
+        emit({ event: "connected", user: this.config.id, cluster: cluster.name, url: cluster.url });
         return true;
         
       } catch (error) {
-        console.log(`❌ Failed to connect to ${cluster.name}: ${error.message}`);
+        const failure = classifyNatsError(error);
+        console.log(`❌ Failed to connect to ${cluster.name}: ${failure.message}`);
+        emit({ event: "connect_failed", user: this.config.id, cluster: cluster.name, failure: failure.kind, message: failure.message });
       }
     }
 
@@ -133,24 +107,25 @@ class BroadcastPublisher {
       const messageData = {
         test: testCase.name,
         subject: testCase.subject,
-        timestamp: new Date().toISOString(),
-        publishedBy: this.config.name,
-        publishedFrom: this.connectedCluster.name,
         sequenceNumber: i + 1,
-        expectedReceivers: testCase.expectedReceivers,
-        broadcastId: Math.random().toString(36).substr(2, 9)
+        expectedReceivers: testCase.expectedReceivers
       };
+      const broadcastId = nuid.next();
 
       try {
-        this.nc.publish(testCase.subject, JSON.stringify(messageData));
+        // The broadcastId doubles as the message ID, so subscribers drop a copy that arrives twice
+        this.nc.publish(testCase.subject, this.encode(messageData), { headers: this.broadcastHeaders(broadcastId) });
         await this.nc.flush();
         console.log(`   ✅ Published successfully`);
+        emit({ event: "published", user: this.config.id, cluster: this.connectedCluster.name, subject: testCase.subject, broadcastId });
         
         // Wait between messages to make output readable
         await new Promise(resolve => setTimeout(resolve, 2000));
         
       } catch (error) {
-        console.log(`   ❌ Publish failed: ${error.message}`);
+        const failure = classifyNatsError(error);
+        console.log(`   ❌ Publish failed: ${failure.message}`);
+        emit({ event: "publish_failed", user: this.config.id, cluster: this.connectedCluster.name, subject: testCase.subject, failure: failure.kind, message: failure.message });
       }
     }
 
@@ -179,7 +154,7 @@ class BroadcastPublisher {
     const readline = require('readline');
     const rl = readline.createInterface({
       input: process.stdin,
-      output: process.stdout
+      output: isJsonMode() ? process.stderr : process.stdout  // Prompts would corrupt NDJSON
     });
 
     const askQuestion = () => {
@@ -243,25 +218,32 @@ class BroadcastPublisher {
       return;
     }
 
-    const messageData = {
-      message: message,
-      subject: subject,
-      timestamp: new Date().toISOString(),
-      publishedBy: this.config.name,
-      publishedFrom: this.connectedCluster.name,
-      interactive: true
-    };
+    const broadcastId = nuid.next();
 
     try {
       console.log(`📡 Publishing to: ${subject}`);
-      this.nc.publish(subject, JSON.stringify(messageData));
+      this.nc.publish(subject, this.codec.encode(this.codec.fromText(message)), { headers: this.broadcastHeaders(broadcastId) });
       await this.nc.flush();
       console.log(`✅ Message published successfully`);
+      emit({ event: "published", user: this.config.id, cluster: this.connectedCluster.name, subject, broadcastId });
     } catch (error) {
-      console.log(`❌ Publish failed: ${error.message}`);
+      const failure = classifyNatsError(error);
+      console.log(`❌ Publish failed: ${failure.message}`);
+      emit({ event: "publish_failed", user: this.config.id, cluster: this.connectedCluster.name, subject, failure: failure.kind, message: failure.message });
     }
   }
 
+  // Message ID, the sender's envelope and the payload's Content-Type
+  private broadcastHeaders(broadcastId: string): MsgHdrs {
+    const h = envelopeHeaders({ user: this.config.name, cluster: this.connectedCluster?.name });
+    return stampMessageId(broadcastId, withContentType(this.codec, h));
+  }
+
+  // Test broadcasts are objects: raw sends them as JSON text, protobuf only if they fit the message type
+  private encode(value: object): Uint8Array {
+    return this.codec.encode(this.codec.name === "raw" ? JSON.stringify(value) : value);
+  }
+
   async close() {
     if (this.nc) {
       await this.nc.close();
@@ -271,37 +253,23 @@ class BroadcastPublisher {
 }
 
 async function main() {
-  const args = process.argv.slice(2);
+  let args = initEventOutput("broadcast-publisher", process.argv.slice(2));
+  let codecs: CodecArgs;
+  try {
+    codecs = parseCodecArgs(args);
+    args = codecs.args;
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
   
   // Default to Foo user (full permissions) for publishing
-  const userName = args.find(arg => ['foo', 'bar', 'mmm'].includes(arg.toLowerCase())) || 'foo';
-  const clusterName = args.find(arg => ['main', 'leaf'].includes(arg.toLowerCase()));
+  const userName = args.find(arg => findUser(arg)) || 'foo';
+  const clusterName = args.find(arg => findCluster(arg))?.toLowerCase();
   const isInteractive = args.includes('--interactive') || args.includes('-i');
   const isTest = args.includes('--test') || args.includes('-t');
 
-  // Define user configurations
-  const userConfigs: { [key: string]: UserConfig } = {
-    foo: {
-      name: "Foo",
-      certFile: "./certs/foo-cert.pem",
-      keyFile: "./certs/foo-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    },
-    bar: {
-      name: "Bar",
-      certFile: "./certs/bar-cert.pem",
-      keyFile: "./certs/bar-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    },
-    mmm: {
-      name: "MMM",
-      certFile: "./certs/mmm-cert.pem",
-      keyFile: "./certs/mmm-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    }
-  };
-
-  const config = userConfigs[userName.toLowerCase()];
+  const config = findUser(userName);
   if (!config) {
     console.log("🚀 NATS Broadcast Publisher - Scenario 3");
     console.log("==========================================");
@@ -314,16 +282,19 @@ async function main() {
     console.log("Options:");
     console.log("  --interactive, -i    - Interactive mode");
     console.log("  --test, -t          - Run broadcast pattern tests");
+    console.log("  --json              - Emit NDJSON events on stdout");
+    CODEC_USAGE.forEach(line => console.log(line));
     console.log("");
     console.log("Examples:");
     console.log("  npx tsx broadcast-publisher.ts                    # Foo user on main cluster");
     console.log("  npx tsx broadcast-publisher.ts foo main --test    # Test patterns");
     console.log("  npx tsx broadcast-publisher.ts bar leaf -i        # Bar user interactive on leaf");
     console.log("  npx tsx broadcast-publisher.ts mmm --interactive  # MMM user interactive");
+    console.log("  npx tsx broadcast-publisher.ts foo -i --codec msgpack  # MessagePack payloads");
     return;
   }
 
-  const publisher = new BroadcastPublisher(config);
+  const publisher = new BroadcastPublisher(config, codecs.codec);
 
   try {
     // Connect to specified or default cluster
@@ -4,98 +4,142 @@
 // Smart subscriber that automatically connects to the appropriate cluster
 // based on user permissions and subject access requirements
 
-import { connect, ConnectionOptions, NatsConnection } from "nats";
-import { readFileSync } from "fs";
-
-interface UserConfig {
-  name: string;
-  certFile: string;
-  keyFile: string;
-  caFile: string;
+import { connect, ConnectionOptions, ConsumerMessages, Events, MsgHdrs, NatsConnection, Subscription } from "nats";
+import { UserConfig, ClusterInfo, listUsers, listClusters, findUser, buildConnectionOptions } from "./nats-topology.js";
+import { EffectivePermissions, PermissionProbe, canSubscribe, checkCoverage, describePermissionSet, subjectMatches } from "./nats-permissions.js";
+import { classifyNatsError } from "./nats-errors.js";
+import { emit, initEventOutput } from "./nats-events.js";
+import { RELAY_STREAM, RELAY_SUBJECTS, durableName, ensureDurableConsumer, ensureRelayStream } from "./nats-jetstream-relay.js";
+import { DedupWindow, MESSAGE_ID_HEADER, messageIdOf } from "./nats-dedup.js";
+import { readEnvelope, describeOrigin } from "./nats-envelope.js";
+import { CONTENT_TYPE_HEADER, CodecRegistry, DEFAULT_PROTO_FILE, PROTO_FLAG, parseCodecArgs } from "./nats-codecs.js";
+
+// Patterns a broadcast subscriber needs to see every message it is interested in
+const BROADCAST_PATTERNS = [
+  "rpc.>",           // RPC subjects
+  "broad.rpc.>",     // Broad RPC patterns
+  "_INBOX.>",        // Reply subjects
+  "broadcast.>",     // General broadcasts
+  "announce.>",      // Announcements
+  "alert.>"          // System alerts
+];
+
+// Where a durable message sits in the relay stream
+interface ReplayInfo {
+  streamSeq: number;
+  redelivered: boolean;
 }
 
-interface ClusterInfo {
-  name: string;
-  url: string;
-  monitoring: string;
-  description: string;
+// One cluster's connection and everything set up on it, set aside while failing back
+interface ClusterSession {
+  nc: NatsConnection;
+  cluster: ClusterInfo;
+  permissions: EffectivePermissions | null;
+  subscriptions: PatternSubscription[];
+  relayMessages: ConsumerMessages | null;
 }
 
+// A core subscription and the pattern it was made for
+interface PatternSubscription {
+  pattern: string;
+  subscription: Subscription;
+}
+
+const DEFAULT_FAILBACK_INTERVAL = 30000;
+// Pings detect a server that stopped answering; the client then counts it as disconnected
+const PING_INTERVAL_MS = 10000;
+// Disconnected this long without a reconnect: the cluster is treated as gone
+const STALE_GRACE_MS = 5000;
+const RESELECT_DELAY_MS = 2000;
+// Messages without an ID header: after a switch, ones already seen on the old cluster
+// within this window are dropped as duplicates
+const SWITCH_DEDUP_MS = 10000;
+const RECENT_MESSAGES = 1000;
+
 class BroadcastSubscriber {
   private config: UserConfig;
   private nc: NatsConnection | null = null;
   private connectedCluster: ClusterInfo | null = null;
   private messageCount = 0;
-  private subscriptions: any[] = [];
-
-  // Define available clusters
-  private clusters: ClusterInfo[] = [
-    {
-      name: "main",
-      url: "tls://localhost:4222",
-      monitoring: "http://localhost:8222",
-      description: "Main restrictive cluster"
-    },
-    {
-      name: "leaf", 
-      url: "tls://localhost:4223",
-      monitoring: "http://localhost:8223",
-      description: "Leaf broadcast relay cluster"
-    }
-  ];
-
-  constructor(config: UserConfig) {
+  private subscriptions: PatternSubscription[] = [];
+  private permissions: EffectivePermissions | null = null;
+  private relayMessages: ConsumerMessages | null = null;
+
+  // Supervision: clusters ruled out by permissions are not retried, only unreachable ones
+  private rejected = new Set<string>();
+  private failbackTimer: NodeJS.Timeout | null = null;
+  private switching = false;
+  private closing = false;
+  private clusterSwitches = 0;
+  private recentMessages = new Set<string>();
+  private dedupUntil = 0;
+
+  // Messages with an ID header are deduplicated all the time, on the ID
+  private dedup = new DedupWindow();
+  private duplicatesDropped = 0;
+
+  // Available clusters, in order of preference (see nats-topology.json)
+  private clusters: ClusterInfo[] = listClusters();
+
+  // durable: read the relay subjects through a JetStream consumer, which only clusters
+  // with the relay stream can offer
+  constructor(config: UserConfig, private durable = false, private payloads = new CodecRegistry()) {
     this.config = config;
   }
 
-  async connectWithFallback(): Promise<boolean> {
+  async connectWithFallback(candidates: ClusterInfo[] = this.clusters.filter(c => !this.rejected.has(c.name))): Promise<boolean> {
     console.log(`🔗 Starting connection process for ${this.config.name}...`);
     console.log("   Strategy: Try main cluster first, test subscriptions, fallback to leaf if needed");
     
     // Try each cluster in order
-    for (const cluster of this.clusters) {
+    for (const cluster of candidates) {
       console.log(`\n🎯 Attempting connection to ${cluster.name} cluster...`);
       console.log(`   URL: ${cluster.url}`);
       console.log(`   Description: ${cluster.description}`);
       
       try {
-        const opts: ConnectionOptions = {
-          servers: [cluster.url],
-          tls: {
-            cert: readFileSync(this.config.certFile),
-            key: readFileSync(this.config.keyFile),
-            ca: readFileSync(this.config.caFile)
-          },
+        const opts: ConnectionOptions = buildConnectionOptions(this.config, cluster, {
           name: `${this.config.name}_broadcast_subscriber`,
-          timeout: 5000,
           reconnect: true,
-          maxReconnectAttempts: 3
-        };
+          maxReconnectAttempts: 3,
+          pingInterval: PING_INTERVAL_MS
+        });
 
         this.nc = await connect(opts);
         this.connectedCluster = cluster; // Set this before testing
         
         console.log(`✅ TLS connection established to ${cluster.name} cluster`);
         console.log(`   User: ${this.config.name}`);
+        emit({ event: "connected", user: this.config.id, cluster: cluster.name, url: cluster.url });
         
         // Test if we can actually subscribe to key subjects
-        if (await this.testSubscriptionCapability()) {
+        const rejection = !await this.testSubscriptionCapability()
+          ? "subscribe permissions do not cover broadcast patterns"
+          : this.durable && !await this.testRelayAvailability()
+            ? "no JetStream relay"
+            : null;
+        if (!rejection) {
           console.log(`✅ Successfully validated permissions on ${cluster.name} cluster`);
           console.log(`   Cluster: ${cluster.description}`);
           console.log(`   Monitoring: ${cluster.monitoring}`);
           return true;
         } else {
-          console.log(`❌ Permission validation failed on ${cluster.name} cluster`);
-          console.log(`   📝 Note: Connection succeeded but subscriptions are restricted`);
+          console.log(`❌ Validation failed on ${cluster.name} cluster`);
+          console.log(`   📝 Note: Connection succeeded but ${rejection}`);
+          emit({ event: "fallback", user: this.config.id, cluster: cluster.name, reason: rejection });
+          this.rejected.add(cluster.name);
           await this.nc.close();
           this.nc = null;
           this.connectedCluster = null; // Reset this too
+          this.permissions = null;
           console.log(`   ⏭️  Trying next cluster...`);
         }
         
       } catch (error) {
+        const failure = classifyNatsError(error);
         console.log(`❌ Failed to connect to ${cluster.name} cluster`);
-        console.log(`   Reason: ${error.message}`);
+        console.log(`   Reason: ${failure.message}`);
+        emit({ event: "connect_failed", user: this.config.id, cluster: cluster.name, failure: failure.kind, message: failure.message });
         console.log(`   ⏭️  Trying next cluster...`);
       }
     }
@@ -105,35 +149,42 @@ class BroadcastSubscriber {
   }
 
   private async testSubscriptionCapability(): Promise<boolean> {
-    // For this demo, let's use a simple rule:
-    // - Bar should connect to leaf cluster to get broader access to replicated messages
-    // - Foo and MMM should connect to main cluster (they have full access)
-    
-    const userName = this.config.name.toLowerCase();
-    const clusterName = this.connectedCluster?.name;
-    
-    console.log(`   🧪 Evaluating optimal cluster for ${userName}...`);
-    console.log(`   🏠 Currently connected to: ${clusterName} cluster`);
-    
-    if (userName === "bar") {
-      if (clusterName === "main") {
-        console.log(`   📝 Bar on main cluster: Limited to broad.rpc.> and _INBOX.>`);
-        console.log(`   📝 Bar will miss messages published to rpc.> subjects`);
-        console.log(`   📝 Recommending fallback to leaf cluster for full coverage`);
-        return false; // Force Bar to leaf cluster for better coverage
-      } else if (clusterName === "leaf") {
-        console.log(`   ✅ Bar on leaf cluster: Can access all replicated messages`);
-        return true;
-      }
-    } else {
-      // Foo and MMM prefer main cluster
-      if (clusterName === "main") {
-        console.log(`   ✅ ${userName} on main cluster: Full access to all subjects`);
-        return true;
-      } else {
-        console.log(`   📝 ${userName} can use leaf cluster but main is preferred`);
-        return true; // They can use either cluster
-      }
+    // Resolve what the server will actually let this identity subscribe to,
+    // then require every broadcast pattern to be covered on this cluster
+    console.log(`   🧪 Resolving effective permissions for ${this.config.name}...`);
+    console.log(`   🏠 Currently connected to: ${this.connectedCluster?.name} cluster`);
+
+    const probe = new PermissionProbe(this.nc!, this.config, this.connectedCluster!);
+    this.permissions = await probe.resolve();
+
+    console.log(`   🪪 Identity: ${this.permissions.identity} (via ${this.permissions.source})`);
+    if (!this.permissions.matchedUser) {
+      console.log(`   ⚠️  No user entry matched - using default_permissions`);
+    }
+    console.log(`   📥 Subscribe allowed: ${describePermissionSet(this.permissions.subscribe)}`);
+
+    const coverage = checkCoverage(this.permissions, { subscribe: BROADCAST_PATTERNS });
+    if (coverage.covered) {
+      console.log(`   ✅ All broadcast patterns covered on ${this.connectedCluster?.name} cluster`);
+      return true;
+    }
+
+    console.log(`   📝 ${this.config.name} would miss messages on: ${coverage.missingSubscribe.join(', ')}`);
+    console.log(`   📝 Recommending fallback to next cluster for full coverage`);
+    return false;
+  }
+
+  // The relay stream lives where JetStream is enabled (the leaf); elsewhere the API does not answer
+  private async testRelayAvailability(): Promise<boolean> {
+    console.log(`   🧪 Looking for the ${RELAY_STREAM} stream on ${this.connectedCluster?.name} cluster...`);
+    try {
+      const jsm = await this.nc!.jetstreamManager();
+      const info = await ensureRelayStream(jsm);
+      console.log(`   💾 Relay stream ready: ${info.state.messages} stored message(s)`);
+      return true;
+    } catch (error) {
+      console.log(`   📝 JetStream unavailable: ${classifyNatsError(error).message}`);
+      return false;
     }
   }
 
@@ -147,7 +198,13 @@ class BroadcastSubscriber {
     // Define subscription patterns based on which cluster we're connected to
     const subscriptionPatterns = this.getSubscriptionPatterns();
     
-    for (const pattern of subscriptionPatterns) {
+    // Durable mode: stored subjects come from the user's consumer, the rest from core subscriptions
+    const relayPatterns = this.durable ? subscriptionPatterns.filter(p => RELAY_SUBJECTS.includes(p)) : [];
+    if (relayPatterns.length > 0) {
+      await this.setupDurableConsumer(relayPatterns);
+    }
+
+    for (const pattern of subscriptionPatterns.filter(p => !relayPatterns.includes(p))) {
       try {
         console.log(`   🎯 Subscribing to: ${pattern}`);
         const sub = this.nc.subscribe(pattern);
@@ -157,77 +214,298 @@ class BroadcastSubscriber {
         this.handleBroadcastMessages(sub, pattern);
         
         console.log(`   ✅ Successfully subscribed to ${pattern}`);
+        emit({ event: "subscribed", user: this.config.id, cluster: this.connectedCluster.name, subject: pattern });
       } catch (error) {
         console.log(`   ❌ Failed to subscribe to ${pattern}: ${error.message}`);
       }
     }
     
+    // Make sure the server has registered every subscription before announcing readiness
+    await this.nc.flush();
+    const subjects = [...relayPatterns, ...this.subscriptions.map(s => s.pattern)];
+    emit({ event: "ready", user: this.config.id, cluster: this.connectedCluster.name, subjects });
+
     console.log(`📡 ${this.config.name} ready to receive broadcasts on ${this.connectedCluster.name} cluster`);
-    console.log(`   Total subscriptions: ${this.subscriptions.length}`);
+    console.log(`   Total subscriptions: ${this.subscriptions.length}${relayPatterns.length > 0 ? " + durable consumer" : ""}`);
   }
 
-  private getSubscriptionPatterns(): string[] {
-    // Define patterns based on user permissions and cluster
-    const userName = this.config.name.toLowerCase();
-    
-    if (this.connectedCluster?.name === "main") {
-      // Main cluster - subscribe based on actual permissions
-      if (userName === "bar") {
-        // Bar user has restricted permissions on main cluster
-        return [
-          "broad.rpc.>",     // Only pattern Bar can access on main cluster
-          "_INBOX.>"         // Reply subjects
-        ];
-      } else {
-        // Foo and MMM users have full permissions
-        return [
-          "rpc.>",           // RPC subjects (full access users only)
-          "broad.rpc.>",     // Broad RPC patterns
-          "_INBOX.>",        // Reply subjects
-          "broadcast.>",     // Would need to be added to server config
-          "announce.>",      // Would need to be added to server config  
-          "alert.>"          // Would need to be added to server config
-        ];
+  private async setupDurableConsumer(patterns: string[]) {
+    const name = durableName(this.config);
+    console.log(`   💾 Durable consumer ${name} on ${RELAY_STREAM}: ${patterns.join(', ')}`);
+
+    const jsm = await this.nc!.jetstreamManager();
+    const info = await ensureDurableConsumer(jsm, this.config, patterns);
+    if (info.num_pending > 0 || info.num_ack_pending > 0) {
+      console.log(`   🔁 ${info.num_pending + info.num_ack_pending} message(s) waiting since the last ack`);
+    }
+
+    const cluster = this.connectedCluster!;
+    const consumer = await this.nc!.jetstream().consumers.get(RELAY_STREAM, name);
+    const messages = this.relayMessages = await consumer.consume();
+    (async () => {
+      for await (const msg of messages) {
+        const pattern = patterns.find(p => subjectMatches(p, msg.subject)) ?? patterns[0];
+        this.handleMessage(cluster, msg.subject, msg.data, msg.headers, pattern, { streamSeq: msg.seq, redelivered: msg.redelivered });
+        // Acked once handled: a subscriber that dies first gets the message again
+        msg.ack();
       }
-    } else {
-      // Leaf cluster - broader access due to relaxed permissions
-      return [
-        ">",               // All subjects accessible on leaf cluster
-      ];
+    })().catch(error => {
+      // The connection went away under the consumer; the supervisor takes it from here
+      console.log(`   ⚠️  Durable consumer on ${cluster.name} stopped: ${error.message}`);
+    });
+
+    for (const pattern of patterns) {
+      console.log(`   ✅ Durably subscribed to ${pattern}`);
+      emit({ event: "subscribed", user: this.config.id, cluster: this.connectedCluster!.name, subject: pattern, durable: name });
+    }
+  }
+
+  private getSubscriptionPatterns(): string[] {
+    // A single wildcard subscription is enough where the user may subscribe to everything,
+    // unless the relay subjects have to be split off to the durable consumer
+    if (!this.durable && this.permissions && canSubscribe(this.permissions, ">")) {
+      return [">"];
     }
+    return BROADCAST_PATTERNS.filter(p => !this.permissions || canSubscribe(this.permissions, p));
   }
 
   private async handleBroadcastMessages(subscription: any, pattern: string) {
+    const cluster = this.connectedCluster!;
     (async () => {
       for await (const msg of subscription) {
-        this.messageCount++;
-        
-        let messageData;
-        try {
-          messageData = JSON.parse(msg.data.toString());
-        } catch {
-          messageData = { raw: msg.data.toString() };
-        }
+        this.handleMessage(cluster, msg.subject, msg.data, msg.headers, pattern);
+      }
+    })();
+  }
 
-        // Enhanced message display with cluster information
-        console.log(`\n📨 [${this.config.name}] Broadcast Message #${this.messageCount}`);
-        console.log(`   📍 Subject: ${msg.subject}`);
-        console.log(`   🎯 Via pattern: ${pattern}`);
-        console.log(`   🏠 Connected cluster: ${this.connectedCluster?.name} (${this.connectedCluster?.description})`);
-        console.log(`   👤 Subscriber: ${this.config.name}`);
-        console.log(`   ⏰ Received: ${new Date().toISOString()}`);
-        console.log(`   📄 Message preview: ${JSON.stringify(messageData, null, 2).substring(0, 150)}...`);
-        
-        // Add cluster-specific indicators
-        if (this.connectedCluster?.name === "leaf") {
-          console.log(`   🌿 Via leaf cluster fallback - message available despite restrictions!`);
-        } else {
-          console.log(`   🔐 Via main cluster - direct access`);
+  private handleMessage(
+    cluster: ClusterInfo,
+    subject: string,
+    data: Uint8Array,
+    headers: MsgHdrs | undefined,
+    pattern: string,
+    replay?: ReplayInfo
+  ) {
+    // Who sent it and the broadcastId are in the headers; the payload is decoded by its Content-Type
+    const payload = this.payloads.describe(data, headers);
+    const origin = readEnvelope(headers);
+    const messageId = messageIdOf(headers);
+    const duplicate = messageId
+      ? this.dedup.isDuplicate(messageId)
+      : this.isSwitchDuplicate(`${subject}\n${payload}`);
+    if (duplicate) {
+      this.duplicatesDropped++;
+      emit({ event: "duplicate_dropped", user: this.config.id, cluster: cluster.name, subject, messageId });
+      const seen = messageId ? `${MESSAGE_ID_HEADER} ${messageId} already received` : "already received before the cluster switch";
+      console.log(`♻️  [${this.config.name}] ${subject} via ${cluster.name}: ${seen}, dropped`);
+      return;
+    }
+    this.messageCount++;
+
+    // Enhanced message display with cluster information
+    emit({
+      event: "message_received",
+      user: this.config.id,
+      cluster: cluster.name,
+      subject,
+      pattern,
+      broadcastId: messageId,
+      streamSeq: replay?.streamSeq,
+      redelivered: replay?.redelivered
+    });
+
+    console.log(`\n📨 [${this.config.name}] Broadcast Message #${this.messageCount}`);
+    console.log(`   📍 Subject: ${subject}`);
+    console.log(`   🎯 Via pattern: ${pattern}`);
+    console.log(`   📤 From: ${describeOrigin(origin)}${origin.timestamp ? ` at ${origin.timestamp}` : ""}`);
+    console.log(`   🧬 Content-Type: ${headers?.get(CONTENT_TYPE_HEADER) || "none (raw bytes)"}`);
+    if (replay) {
+      console.log(`   💾 Stream sequence: ${replay.streamSeq}${replay.redelivered ? " (🔁 redelivered)" : ""}`);
+    }
+    console.log(`   🏠 Connected cluster: ${cluster.name} (${cluster.description})`);
+    console.log(`   👤 Subscriber: ${this.config.name}`);
+    console.log(`   ⏰ Received: ${new Date().toISOString()}`);
+    console.log(`   📄 Message preview: ${payload.substring(0, 150)}${payload.length > 150 ? "..." : ""}`);
+
+    // Add cluster-specific indicators
+    if (cluster.name === "leaf") {
+      console.log(`   🌿 Via leaf cluster fallback - message available despite restrictions!`);
+    } else {
+      console.log(`   🔐 Via main cluster - direct access`);
+    }
+
+    console.log("");
+  }
+
+  // Messages without an ID: every one is remembered (the last RECENT_MESSAGES of them), but only right
+  // after a cluster switch is a repeat dropped, as identical payloads are legitimate the rest of the time
+  private isSwitchDuplicate(key: string): boolean {
+    const seen = this.recentMessages.has(key);
+    this.recentMessages.delete(key);
+    this.recentMessages.add(key);
+    if (this.recentMessages.size > RECENT_MESSAGES) {
+      this.recentMessages.delete(this.recentMessages.values().next().value!);
+    }
+    return seen && Date.now() < this.dedupUntil;
+  }
+
+  // Keeps the subscriber on the best cluster it can use: selection runs again when the
+  // connection closes or stays disconnected, and a preferred cluster is retried periodically
+  supervise(failbackIntervalMs: number = DEFAULT_FAILBACK_INTERVAL) {
+    this.watchConnection(this.nc!, this.connectedCluster!);
+    if (failbackIntervalMs > 0) {
+      this.failbackTimer = setInterval(() => {
+        this.tryFailback().catch(error => console.log(`❌ ${this.config.name} failback error: ${error.message}`));
+      }, failbackIntervalMs);
+    }
+  }
+
+  private watchConnection(nc: NatsConnection, cluster: ClusterInfo) {
+    let staleTimer: NodeJS.Timeout | undefined;
+    (async () => {
+      for await (const status of nc.status()) {
+        if (status.type === Events.Disconnect && !staleTimer) {
+          console.log(`⚠️  ${this.config.name} lost ${cluster.name} cluster, waiting ${STALE_GRACE_MS}ms for a reconnect...`);
+          staleTimer = setTimeout(() => this.startFailover(nc, "stale connection"), STALE_GRACE_MS);
+        } else if (status.type === Events.Reconnect) {
+          clearTimeout(staleTimer);
+          staleTimer = undefined;
+          console.log(`🔄 ${this.config.name} reconnected to ${cluster.name} cluster`);
         }
-        
-        console.log("");
       }
     })();
+    nc.closed().then(() => {
+      clearTimeout(staleTimer);
+      this.startFailover(nc, "connection closed");
+    });
+  }
+
+  // Failover runs from timers and connection callbacks, where nothing awaits it
+  private startFailover(nc: NatsConnection, reason: string) {
+    this.failover(nc, reason).catch(error => console.log(`❌ ${this.config.name} failover error: ${error.message}`));
+  }
+
+  // The current cluster is gone: select again from every cluster not ruled out, until one takes.
+  // A cluster that connects but cannot be set up is closed again and selection retried
+  private async failover(nc: NatsConnection, reason: string) {
+    if (nc !== this.nc || this.switching || this.closing) {
+      return;
+    }
+    this.switching = true;
+    const from = this.connectedCluster!;
+    console.log(`\n🚨 ${this.config.name} leaving ${from.name} cluster (${reason}), selecting a cluster again...`);
+
+    try {
+      await this.closeSession(this.detachSession());
+      while (!this.closing) {
+        try {
+          if (await this.connectWithFallback()) {
+            await this.setupBroadcastSubscriptions();
+            this.switched(from, reason);
+            break;
+          }
+          console.log(`   ⏳ No cluster available, retrying in ${RESELECT_DELAY_MS}ms...`);
+        } catch (error) {
+          const failure = classifyNatsError(error);
+          const cluster = this.connectedCluster?.name ?? "none";
+          console.log(`   ❌ Setting up on ${cluster} cluster failed: ${failure.message}, retrying in ${RESELECT_DELAY_MS}ms...`);
+          emit({ event: "failover_failed", user: this.config.id, cluster, from: from.name, failure: failure.kind, message: failure.message });
+          if (this.nc) {
+            await this.closeSession(this.detachSession());
+          }
+        }
+        await new Promise(resolve => setTimeout(resolve, RESELECT_DELAY_MS));
+      }
+    } finally {
+      this.switching = false;
+    }
+    this.recheckConnection();
+  }
+
+  // Make before break: the preferred cluster is subscribed before the current one is let go,
+  // and what arrives on both in between is dropped as a duplicate
+  private async tryFailback() {
+    if (this.switching || this.closing || !this.connectedCluster) {
+      return;
+    }
+    const current = this.clusters.findIndex(c => c.name === this.connectedCluster!.name);
+    const preferred = this.clusters.slice(0, current).filter(c => !this.rejected.has(c.name));
+    if (preferred.length === 0) {
+      return;
+    }
+
+    this.switching = true;
+    const previous = this.detachSession();
+    try {
+      console.log(`\n🔙 ${this.config.name} checking whether ${preferred.map(c => c.name).join(", ")} is back...`);
+      if (await this.connectWithFallback(preferred)) {
+        await this.setupBroadcastSubscriptions();
+        await this.closeSession(previous);
+        this.switched(previous.cluster, "failback");
+      } else {
+        console.log(`   ↩️  Staying on ${previous.cluster.name} cluster`);
+        this.restoreSession(previous);
+      }
+    } catch (error) {
+      console.log(`   ❌ Failback failed: ${error.message}`);
+      if (this.nc) {
+        await this.closeSession(this.detachSession());
+      }
+      this.restoreSession(previous);
+    } finally {
+      this.switching = false;
+    }
+    this.recheckConnection();
+  }
+
+  private switched(from: ClusterInfo, reason: string) {
+    const to = this.connectedCluster!;
+    this.clusterSwitches++;
+    this.dedupUntil = Date.now() + SWITCH_DEDUP_MS;
+    this.watchConnection(this.nc!, to);
+    console.log(`🔀 ${this.config.name} switched from ${from.name} to ${to.name} cluster (${reason})`);
+    emit({ event: "cluster_switched", user: this.config.id, cluster: to.name, from: from.name, reason });
+  }
+
+  // A connection that closed while a switch was in progress was ignored then
+  private recheckConnection() {
+    if (this.nc?.isClosed()) {
+      this.startFailover(this.nc, "connection closed");
+    }
+  }
+
+  private detachSession(): ClusterSession {
+    const session: ClusterSession = {
+      nc: this.nc!,
+      cluster: this.connectedCluster!,
+      permissions: this.permissions,
+      subscriptions: this.subscriptions,
+      relayMessages: this.relayMessages
+    };
+    this.nc = null;
+    this.connectedCluster = null;
+    this.permissions = null;
+    this.subscriptions = [];
+    this.relayMessages = null;
+    return session;
+  }
+
+  private restoreSession(session: ClusterSession) {
+    this.nc = session.nc;
+    this.connectedCluster = session.cluster;
+    this.permissions = session.permissions;
+    this.subscriptions = session.subscriptions;
+    this.relayMessages = session.relayMessages;
+  }
+
+  private async closeSession(session: ClusterSession) {
+    // Unacked messages stay pending on the durable and come back on the next consumer
+    session.relayMessages?.stop();
+    try {
+      await session.nc.close();
+    } catch {
+      // Already closed by the failure that ended the session
+    }
   }
 
   getStats() {
@@ -237,7 +515,11 @@ class BroadcastSubscriber {
       clusterDescription: this.connectedCluster?.description || "not connected",
       messagesReceived: this.messageCount,
       subscriptions: this.subscriptions.length,
-      subscriptionPatterns: this.subscriptions.map(s => s.pattern)
+      subscriptionPatterns: this.subscriptions.map(s => s.pattern),
+      durableConsumer: this.relayMessages ? durableName(this.config) : null,
+      clusterSwitches: this.clusterSwitches,
+      duplicatesDropped: this.duplicatesDropped,
+      dedupWindow: this.dedup.stats()
     };
   }
 
@@ -251,13 +533,21 @@ class BroadcastSubscriber {
     console.log(`   🏠 Cluster: ${this.connectedCluster.name} (${this.connectedCluster.description})`);
     console.log(`   🔗 URL: ${this.connectedCluster.url}`);
     console.log(`   📊 Monitoring: ${this.connectedCluster.monitoring}`);
+    console.log(`   🪪 Identity: ${this.permissions?.identity || this.config.email}`);
     console.log(`   📡 Subscriptions: ${this.subscriptions.length}`);
     console.log(`   📨 Messages received: ${this.messageCount}`);
   }
 
   async close() {
     console.log(`\n🔌 Closing ${this.config.name} connections...`);
-    
+    this.closing = true;
+    if (this.failbackTimer) {
+      clearInterval(this.failbackTimer);
+    }
+
+    // Unacked messages stay pending on the durable and come back on the next start
+    this.relayMessages?.stop();
+
     for (const sub of this.subscriptions) {
       try {
         await sub.subscription.unsubscribe();
@@ -270,73 +560,78 @@ class BroadcastSubscriber {
       await this.nc.close();
       console.log(`🔌 ${this.config.name} disconnected from ${this.connectedCluster?.name} cluster`);
     }
+    emit({ event: "closed", user: this.config.id, cluster: this.connectedCluster?.name, messages: this.messageCount });
   }
 }
 
 async function main() {
-  const args = process.argv.slice(2);
+  let args = initEventOutput("broadcast-subscriber", process.argv.slice(2));
+  let payloads: CodecRegistry;
+  try {
+    ({ registry: payloads, args } = parseCodecArgs(args));
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
   
   if (args.length < 1) {
     console.log("🚀 NATS Broadcast Subscriber - Scenario 3");
     console.log("==========================================");
-    console.log("Usage: npx tsx broadcast-subscriber.ts <user>");
+    console.log("Usage: npx tsx broadcast-subscriber.ts <user> [--durable] [--failback-interval <ms>] [--proto <file>] [--json]");
     console.log("");
     console.log("Available users:");
     console.log("  foo - Full access user");
     console.log("  bar - Restricted user (will use leaf cluster fallback)");  
     console.log("  mmm - Full access user");
     console.log("");
+    console.log("Options:");
+    console.log("  --durable - Read broadcast.>, announce.>, alert.> and rpc.> from the leaf's JetStream relay,");
+    console.log("              replaying what was sent while the subscriber was stopped");
+    console.log(`  --failback-interval <ms> - How often to retry a preferred cluster after a failover (default ${DEFAULT_FAILBACK_INTERVAL}, 0 = never)`);
+    console.log(`  ${PROTO_FLAG} <file> - Schema for protobuf payloads, repeatable (default ${DEFAULT_PROTO_FILE}); payloads are decoded by their Content-Type`);
+    console.log("");
     console.log("Examples:");
     console.log("  npx tsx broadcast-subscriber.ts foo");
     console.log("  npx tsx broadcast-subscriber.ts bar");
     console.log("  npx tsx broadcast-subscriber.ts mmm");
+    console.log("  npx tsx broadcast-subscriber.ts bar --durable");
     return;
   }
 
+  const durable = args.includes("--durable");
+  const intervalIndex = args.indexOf("--failback-interval");
+  const failbackInterval = intervalIndex === -1 ? DEFAULT_FAILBACK_INTERVAL : Number(args[intervalIndex + 1]);
+  if (!Number.isInteger(failbackInterval) || failbackInterval < 0) {
+    console.log("❌ --failback-interval needs a number of milliseconds (0 disables failback)");
+    process.exit(1);
+  }
   const userName = args[0].toLowerCase();
   
-  // Define user configurations
-  const userConfigs: { [key: string]: UserConfig } = {
-    foo: {
-      name: "Foo",
-      certFile: "./certs/foo-cert.pem",
-      keyFile: "./certs/foo-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    },
-    bar: {
-      name: "Bar",
-      certFile: "./certs/bar-cert.pem", 
-      keyFile: "./certs/bar-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    },
-    mmm: {
-      name: "MMM",
-      certFile: "./certs/mmm-cert.pem",
-      keyFile: "./certs/mmm-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    }
-  };
-
-  const config = userConfigs[userName];
+  const config = findUser(userName);
   if (!config) {
     console.log(`❌ Unknown user: ${userName}`);
-    console.log("Available users: foo, bar, mmm");
+    console.log(`Available users: ${listUsers().map(u => u.id).join(', ')}`);
     return;
   }
 
-  const subscriber = new BroadcastSubscriber(config);
+  const subscriber = new BroadcastSubscriber(config, durable, payloads);
 
   // Set up graceful shutdown
-  process.on('SIGINT', async () => {
+  const shutdown = async () => {
     console.log("\n🛑 Shutting down subscriber...");
     const stats = subscriber.getStats();
     console.log("\n📊 Final Statistics:");
     console.log(`   User: ${stats.subscriber}`);
     console.log(`   Cluster: ${stats.connectedCluster}`); 
     console.log(`   Messages: ${stats.messagesReceived}`);
+    console.log(`   Cluster switches: ${stats.clusterSwitches}`);
+    console.log(`   Duplicates dropped: ${stats.duplicatesDropped}`);
     await subscriber.close();
     process.exit(0);
-  });
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 
   try {
     // Connect with automatic fallback
@@ -350,6 +645,9 @@ async function main() {
     // Show connection info
     await subscriber.showConnectionInfo();
 
+    // From here on a lost cluster triggers selection again instead of ending the subscriber
+    subscriber.supervise(failbackInterval);
+
     console.log(`\n🎧 ${config.name} is now listening for broadcast messages...`);
     console.log("   Press Ctrl+C to stop");
     
@@ -0,0 +1,274 @@
+#!/usr/bin/env node
+
+// NATS Codec Test
+// Sends one request per payload codec to a running request handler and checks that it decoded
+// the payload by its Content-Type, answered in the right codec, and echoed what was sent.
+// Unsupported Content-Types must come back as 415 error replies, not as garbage
+
+import { connect, NatsConnection, ServiceError } from "nats";
+import { spawn, ChildProcess } from "child_process";
+import { getUser, getCluster, buildConnectionOptions } from "./nats-topology.js";
+import { JSON_FLAG, waitForReady } from "./nats-events.js";
+import { ClusterHarness, EMBEDDED_FLAG } from "./nats-server-harness.js";
+import { decodeReply } from "./nats-service.js";
+import { envelopeHeaders } from "./nats-envelope.js";
+import {
+  CONTENT_TYPE_HEADER, CodecName, CodecRegistry, DEFAULT_PROTO_FILE, JSON_CONTENT_TYPE, MSGPACK_CONTENT_TYPE,
+  describePayload, withContentType
+} from "./nats-codecs.js";
+
+interface CodecCase {
+  name: string;
+  description: string;
+  codec: CodecName;
+  messageType?: string;
+  value: unknown;
+  label?: string;                // Sent as the Content-Type instead of the codec's own
+  replyContentType?: string;     // Expected on the reply
+  errorCode?: number;            // Expected error reply instead
+}
+
+interface CaseResult {
+  testCase: CodecCase;
+  passed: boolean;
+  detail: string;
+}
+
+const HANDLER = { user: "foo", cluster: "main" };
+const SUBJECT = "rpc.hello.world";
+const REPLY_TIMEOUT_MS = 5000;
+const STOP_TIMEOUT_MS = 5000;
+
+const CODEC_CASES: CodecCase[] = [
+  {
+    name: "json",
+    description: "A JSON object, answered in JSON",
+    codec: "json",
+    value: { message: "hello", sequence: 1, tags: ["a", "b"] },
+    replyContentType: JSON_CONTENT_TYPE
+  },
+  {
+    name: "msgpack",
+    description: "A MessagePack object, answered in MessagePack",
+    codec: "msgpack",
+    value: { message: "hello", sequence: 2, nested: { ok: true } },
+    replyContentType: MSGPACK_CONTENT_TYPE
+  },
+  {
+    name: "protobuf",
+    description: "A poc.Greeting from the bundled schema, answered in JSON",
+    codec: "protobuf",
+    messageType: "poc.Greeting",
+    value: { message: "hello", sequence: 3, attachment: "AAEC" },
+    replyContentType: JSON_CONTENT_TYPE
+  },
+  {
+    name: "protobuf-int64",
+    description: "A poc.Reading with an int64 past 2^53, given as a string, answered in JSON",
+    codec: "protobuf",
+    messageType: "poc.Reading",
+    value: { sensor: "boiler", value: 1.5, taken_at_ms: "9007199254740993" },
+    replyContentType: JSON_CONTENT_TYPE
+  },
+  {
+    name: "raw",
+    description: "Bytes that are not UTF-8, answered in JSON",
+    codec: "raw",
+    value: new Uint8Array([0xff, 0x00, 0x01, 0xfe]),
+    replyContentType: JSON_CONTENT_TYPE
+  },
+  {
+    name: "unsupported",
+    description: "A Content-Type no codec is registered for gets a 415",
+    codec: "raw",
+    value: "<hello/>",
+    label: "application/xml",
+    errorCode: 415
+  },
+  {
+    name: "unknown-message-type",
+    description: "A protobuf message type missing from the handler's schema gets a 415",
+    codec: "raw",
+    value: new Uint8Array([0x0a, 0x01, 0x41]),
+    label: "application/protobuf; messageType=poc.Missing",
+    errorCode: 415
+  }
+];
+
+class CodecTest {
+  private handler?: ChildProcess;
+  private harness?: ClusterHarness;
+  private registry = new CodecRegistry();
+  private results: CaseResult[] = [];
+
+  constructor(private verbose = false, private embedded = false) {
+    this.registry.loadSchema(DEFAULT_PROTO_FILE);
+    process.on('SIGINT', () => this.stopHandler());
+    process.on('SIGTERM', () => this.stopHandler());
+  }
+
+  async run(): Promise<boolean> {
+    console.log("🚀 NATS Codec Test");
+    console.log("==================");
+    console.log(`One request per codec to ${getUser(HANDLER.user).name}'s handler on ${SUBJECT}\n`);
+
+    let nc: NatsConnection | undefined;
+    try {
+      if (this.embedded) {
+        console.log("🏗️  Starting embedded NATS clusters...");
+        this.harness = await ClusterHarness.start({ echoLogs: this.verbose });
+        for (const line of this.harness.describe()) {
+          console.log(`   ✅ ${line}`);
+        }
+        console.log("");
+      }
+
+      await this.startHandler();
+      nc = await connect(buildConnectionOptions(getUser(HANDLER.user), getCluster(HANDLER.cluster), {
+        name: "codec_test_requester"
+      }));
+      console.log("");
+
+      for (const testCase of CODEC_CASES) {
+        const result = await this.runCase(nc, testCase);
+        this.results.push(result);
+        console.log(`   ${result.passed ? "✅" : "❌"} ${testCase.name}: ${result.detail}`);
+      }
+      return this.showSummary();
+    } catch (error) {
+      console.error(`❌ Test failed: ${error.message}`);
+      this.harness?.printLogTail();
+      return false;
+    } finally {
+      await nc?.close();
+      await this.stopHandler();
+      await this.harness?.stop();
+    }
+  }
+
+  private async runCase(nc: NatsConnection, testCase: CodecCase): Promise<CaseResult> {
+    const codec = this.registry.codec(testCase.codec, testCase.messageType);
+    const payload = codec.encode(testCase.value);
+    const h = withContentType(codec, envelopeHeaders({ user: getUser(HANDLER.user).name, cluster: HANDLER.cluster }));
+    if (testCase.label) {
+      h.set(CONTENT_TYPE_HEADER, testCase.label);
+    }
+
+    const reply = await nc.request(SUBJECT, payload, { timeout: REPLY_TIMEOUT_MS, headers: h });
+    const replyContentType = reply.headers?.get(CONTENT_TYPE_HEADER) || "none";
+
+    let body: Record<string, any>;
+    try {
+      body = decodeReply(reply, this.registry.forHeaders(reply.headers)) as Record<string, any>;
+    } catch (error) {
+      if (!(error instanceof ServiceError)) {
+        return { testCase, passed: false, detail: `reply (${replyContentType}) did not decode: ${error.message}` };
+      }
+      const passed = error.code === testCase.errorCode;
+      return { testCase, passed, detail: `error ${error.code} ${error.message}${passed ? "" : `, expected ${testCase.errorCode ?? "a reply"}`}` };
+    }
+
+    if (testCase.errorCode) {
+      return { testCase, passed: false, detail: `answered (${replyContentType}), expected error ${testCase.errorCode}` };
+    }
+    // What the handler should have seen: the payload decoded the way it was labelled
+    const decoded = codec.decode(payload);
+    const expected = describePayload(decoded instanceof Uint8Array ? describePayload(decoded) : decoded);
+    const echoed = describePayload(body.originalRequest);
+    const problems = [
+      replyContentType !== testCase.replyContentType ? `reply is ${replyContentType}, expected ${testCase.replyContentType}` : "",
+      echoed !== expected ? `echoed ${echoed}, expected ${expected}` : ""
+    ].filter(Boolean);
+    return {
+      testCase,
+      passed: problems.length === 0,
+      detail: problems.length > 0 ? problems.join("; ") : `${payload.length} bytes as ${codec.contentType}, reply ${replyContentType}, echo ${echoed}`
+    };
+  }
+
+  private async startHandler(): Promise<void> {
+    const name = `${getUser(HANDLER.user).name}@${HANDLER.cluster}`;
+    const child = spawn("npx", ["tsx", "request-reply-leaf-subscriber.ts", HANDLER.user, HANDLER.cluster, JSON_FLAG], {
+      stdio: ["pipe", "pipe", "pipe"]
+    });
+    this.handler = child;
+
+    // In --json mode the handler's console output goes to stderr; keep it for diagnostics
+    let output = "";
+    child.stderr?.on('data', (data) => {
+      output += data.toString();
+      if (this.verbose) {
+        console.log(`   📋 [${name}] ${data.toString().trim()}`);
+      }
+    });
+
+    try {
+      await waitForReady(child.stdout!, name);
+    } catch (error) {
+      for (const line of output.trim().split('\n').slice(-10)) {
+        console.log(`   📋 ${name}: ${line}`);
+      }
+      throw error;
+    }
+    console.log(`🎧 ${name} handler ready`);
+  }
+
+  private showSummary(): boolean {
+    console.log("\n📊 Codec Results");
+    console.log("================");
+    for (const result of this.results) {
+      console.log(`   ${result.passed ? "✅" : "❌"} ${result.testCase.name.padEnd(22)}${result.testCase.description}`);
+    }
+
+    const passed = this.results.every(r => r.passed);
+    console.log(`\n${passed ? "🎉 Codecs PASSED" : "💥 Codecs FAILED"}: ` +
+      `${this.results.filter(r => r.passed).length}/${this.results.length} cases as expected`);
+    return passed;
+  }
+
+  private async stopHandler(): Promise<void> {
+    const child = this.handler;
+    this.handler = undefined;
+    if (!child || child.exitCode !== null || child.signalCode !== null) {
+      return;
+    }
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        resolve();
+      }, STOP_TIMEOUT_MS);
+      child.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      child.kill('SIGTERM');
+    });
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log("🚀 NATS Codec Test");
+    console.log("==================");
+    console.log("Usage:");
+    console.log("  npx tsx codec-test.ts                    # Against the running clusters");
+    console.log("  npx tsx codec-test.ts --verbose          # Also show the handler's console output");
+    console.log(`  npx tsx codec-test.ts ${EMBEDDED_FLAG}         # Start nats-server on free ports for the run`);
+    console.log("");
+    console.log("Cases:");
+    for (const testCase of CODEC_CASES) {
+      console.log(`  ${testCase.name.padEnd(22)}${testCase.description}`);
+    }
+    return;
+  }
+
+  const test = new CodecTest(args.includes('--verbose') || args.includes('-v'), args.includes(EMBEDDED_FLAG));
+  process.exit(await test.run() ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error("❌ Test error:", error);
+  process.exit(1);
+});
@@ -3,121 +3,126 @@
 // NATS Permissions Debug Script
 // This script tests TLS certificate authentication and subject permissions
 // Supports both single server and leaf node architecture
+// Expected outcomes come from each cluster's authorization block, not hand-kept lists
 
 import { connect, ConnectionOptions, NatsConnection } from "nats";
-import { readFileSync } from "fs";
+import { UserConfig, ClusterInfo, listUsers, listClusters, findCluster, buildConnectionOptions } from "./nats-topology.js";
+import { checkedSubscribe } from "./nats-subscribe.js";
+import { PermissionDeniedError } from "./nats-errors.js";
+import { PublishVerification, connectObserver, verifyPublish, verdictIcon } from "./nats-publish-verify.js";
+import { UserPermissions, canPublish, canSubscribe, resolveUserPermissions } from "./nats-permissions.js";
+import { loadNatsConfig } from "./nats-config.js";
 
-interface TestUser {
-  name: string;
-  certFile: string;
-  keyFile: string;
-  caFile: string;
+const testSubjects = [
+  { subject: "rpc.hello.world", description: "Specific RPC endpoint" },
+  { subject: "broad.rpc.hello.world", description: "Broadcast RPC pattern" },
+  { subject: "broadcast.announcement", description: "General broadcast subject" },
+  { subject: "alert.system", description: "System alert subject" },
+  { subject: "_INBOX.test", description: "Reply subject" }
+];
+
+type Operation = "publish" | "subscribe";
+
+// allowed/denied as reported by the server; unconfirmed = no -ERR but the observer
+// never saw the probe; error = could not be probed (e.g. the connection failed)
+type ObservedOutcome = "allowed" | "denied" | "unconfirmed" | "error";
+
+interface PermissionCheck {
+  user: string;
+  cluster: string;
+  subject: string;
+  op: Operation;
+  expected: boolean;
+  observed: ObservedOutcome;
 }
 
-const users: TestUser[] = [
-  { 
-    name: "Foo", 
-    certFile: "./certs/foo-cert.pem",
-    keyFile: "./certs/foo-key.pem",
-    caFile: "./certs/ca-cert.pem"
-  },
-  { 
-    name: "Bar", 
-    certFile: "./certs/bar-cert.pem",
-    keyFile: "./certs/bar-key.pem",
-    caFile: "./certs/ca-cert.pem"
-  },
-  {
-    name: "MMM",
-    certFile: "./certs/foo-cert.pem", // Uses Foo cert for demo
-    keyFile: "./certs/foo-key.pem",
-    caFile: "./certs/ca-cert.pem"
-  }
-];
+interface Expectations {
+  permissions: UserPermissions;
+  matchedUser: boolean;  // false: no user entry, so verify_and_map should refuse the connection
+}
 
-const clusters = [
-  {
-    name: "main",
-    url: "tls://localhost:4222",
-    description: "Main restrictive cluster"
-  },
-  {
-    name: "leaf", 
-    url: "tls://localhost:4223",
-    description: "Leaf broadcast relay cluster"
-  }
-];
+const OBSERVED_OUTCOMES: ObservedOutcome[] = ["allowed", "denied", "unconfirmed", "error"];
 
-const testSubjects = [
-  {
-    subject: "rpc.hello.world",
-    description: "Specific RPC endpoint",
-    expectedUsers: ["Foo", "MMM"]
-  },
-  {
-    subject: "broad.rpc.hello.world", 
-    description: "Broadcast RPC pattern",
-    expectedUsers: ["Foo", "Bar", "MMM"]
-  },
-  {
-    subject: "broadcast.announcement",
-    description: "General broadcast subject",
-    expectedUsers: ["Foo", "MMM"]
-  },
-  {
-    subject: "alert.system",
-    description: "System alert subject", 
-    expectedUsers: ["Foo", "MMM"]
-  },
-  {
-    subject: "_INBOX.test",
-    description: "Reply subject",
-    expectedUsers: ["Foo", "Bar", "MMM"]
+function expectationsFor(user: UserConfig, cluster: ClusterInfo): Expectations {
+  return resolveUserPermissions(loadNatsConfig(cluster.configFile), user.email);
+}
+
+function isExpected(op: Operation, expectations: Expectations, subject: string): boolean {
+  if (!expectations.matchedUser) {
+    return false;
   }
-];
+  return op === "publish" ? canPublish(expectations.permissions, subject) : canSubscribe(expectations.permissions, subject);
+}
+
+// unconfirmed counts as "not refused": the server accepted the publish
+function agreesWith(expected: boolean, observed: ObservedOutcome): boolean {
+  if (observed === "error") return false;
+  return expected === (observed !== "denied");
+}
+
+function agrees(check: PermissionCheck): boolean {
+  return agreesWith(check.expected, check.observed);
+}
 
-async function testUserOnCluster(user: TestUser, cluster: any) {
+async function testUserOnCluster(
+  user: UserConfig,
+  cluster: ClusterInfo,
+  observer: NatsConnection | undefined,
+  verdicts: PublishVerification[],
+  checks: PermissionCheck[]
+) {
   console.log(`\n🔍 Testing ${user.name} on ${cluster.name} cluster`);
   console.log(`📍 ${cluster.description} (${cluster.url})`);
   console.log("=".repeat(60));
 
+  const expectations = expectationsFor(user, cluster);
+  const record = (subject: string, op: Operation, observed: ObservedOutcome): PermissionCheck => {
+    const check = { user: user.name, cluster: cluster.name, subject, op, expected: isExpected(op, expectations, subject), observed };
+    checks.push(check);
+    return check;
+  };
+  const expectation = (check: PermissionCheck) => agrees(check) ? '' : ` ❗ config says ${check.expected ? 'allow' : 'deny'}`;
+
   let nc: NatsConnection;
-  
+
   try {
-    const opts: ConnectionOptions = {
-      servers: [cluster.url],
-      tls: {
-        cert: readFileSync(user.certFile),
-        key: readFileSync(user.keyFile),
-        ca: readFileSync(user.caFile)
-      },
-      name: `debug_${user.name}_${cluster.name}`,
-      timeout: 5000
-    };
+    const opts: ConnectionOptions = buildConnectionOptions(user, cluster, {
+      name: `debug_${user.name}_${cluster.name}`
+    });
 
     nc = await connect(opts);
     console.log(`✅ Connected successfully to ${cluster.name} cluster`);
     console.log(`   User: ${user.name}`);
     console.log(`   Cluster: ${cluster.description}`);
+    if (!expectations.matchedUser) {
+      console.log(`   ❗ ${user.email} has no user entry in ${cluster.configFile}, yet the server accepted it`);
+    }
   } catch (error) {
     console.log(`❌ Connection failed: ${error.message}`);
+    for (const testCase of testSubjects) {
+      record(testCase.subject, "publish", "error");
+      record(testCase.subject, "subscribe", "error");
+    }
     return;
   }
 
   // Test publishing to each subject
   console.log("\n📨 Testing PUBLISH permissions:");
-  console.log("    Note: NATS silently drops unauthorized publishes - no exceptions thrown");
+  console.log("    Note: Each publish is a tagged probe verified via server errors and an observer");
   for (const testCase of testSubjects) {
-    const expectedToWork = testCase.expectedUsers.includes(user.name);
-    const expectedIcon = expectedToWork ? "✅" : "⚠️";
-    
     try {
       const message = `Test from ${user.name} to ${testCase.subject} on ${cluster.name}`;
-      nc.publish(testCase.subject, message);
-      await nc.flush();
-      console.log(`   ${expectedIcon} PUBLISH ${testCase.subject} - Completed${expectedToWork ? '' : ' (may be dropped by server)'}`);
+      const result = await verifyPublish(nc, testCase.subject, { cluster: cluster.name, user: user.name }, {
+        observer,
+        payload: message
+      });
+      verdicts.push(result);
+
+      const check = record(testCase.subject, "publish", result.verdict);
+      console.log(`   ${verdictIcon(result.verdict)} PUBLISH ${testCase.subject} - ${result.verdict.toUpperCase()}${expectation(check)}`);
       console.log(`      Description: ${testCase.description}`);
     } catch (error) {
+      record(testCase.subject, "publish", "error");
       console.log(`   ❌ PUBLISH ${testCase.subject} - CLIENT ERROR: ${error.message}`);
     }
   }
@@ -125,20 +130,22 @@ async function testUserOnCluster(user: TestUser, cluster: any) {
   // Test subscribing to each subject
   console.log("\n📡 Testing SUBSCRIBE permissions:");
   for (const testCase of testSubjects) {
-    const expectedToWork = testCase.expectedUsers.includes(user.name) || cluster.name === "leaf";
-    const expectedIcon = expectedToWork ? "✅" : "❌";
-    
     try {
-      const sub = nc.subscribe(testCase.subject, { max: 1 });
-      
-      // Wait a bit to see if subscription gets terminated by server
-      await new Promise(resolve => setTimeout(resolve, 200));
-      
-      console.log(`   ${expectedIcon} SUBSCRIBE ${testCase.subject} - SUCCESS`);
+      const sub = await checkedSubscribe(nc, testCase.subject, { cluster: cluster.name, user: user.name }, { max: 1 });
+
+      const check = record(testCase.subject, "subscribe", "allowed");
+      console.log(`   ${agrees(check) ? "✅" : "❌"} SUBSCRIBE ${testCase.subject} - ACCEPTED${expectation(check)}`);
       console.log(`      Description: ${testCase.description}`);
       await sub.unsubscribe();
     } catch (error) {
-      console.log(`   ${expectedIcon} SUBSCRIBE ${testCase.subject} - FAILED: ${error.message}`);
+      if (error instanceof PermissionDeniedError) {
+        const check = record(testCase.subject, "subscribe", "denied");
+        console.log(`   ${agrees(check) ? "✅" : "❌"} SUBSCRIBE ${testCase.subject} - DENIED${expectation(check)}`);
+        console.log(`      Description: ${testCase.description}`);
+      } else {
+        record(testCase.subject, "subscribe", "error");
+        console.log(`   ❌ SUBSCRIBE ${testCase.subject} - CLIENT ERROR: ${error.message}`);
+      }
     }
   }
 
@@ -150,45 +157,99 @@ async function testUserOnCluster(user: TestUser, cluster: any) {
   }
 }
 
+function printPublishVerdicts(verdicts: PublishVerification[], cluster: ClusterInfo) {
+  const clusterVerdicts = verdicts.filter(v => v.cluster === cluster.name);
+  const userNames = [...new Set(clusterVerdicts.map(v => v.user))];
+
+  console.log(`\n📊 Publish Verdicts on ${cluster.name} cluster:`);
+  console.log(`   ${"Subject".padEnd(26)}${userNames.map(u => u.padEnd(14)).join('')}`);
+  for (const testCase of testSubjects) {
+    const cells = userNames.map(u => {
+      const v = clusterVerdicts.find(r => r.user === u && r.subject === testCase.subject);
+      return (v ? `${verdictIcon(v.verdict)} ${v.verdict}` : "-").padEnd(14);
+    });
+    console.log(`   ${testCase.subject.padEnd(26)}${cells.join('')}`);
+  }
+}
+
+// Rows: what the config says; columns: what the server did
+function printConfusionMatrix(checks: PermissionCheck[]) {
+  console.log("\n📊 Expected (config) vs Observed (server):");
+  console.log(`   ${"".padEnd(22)}${OBSERVED_OUTCOMES.map(o => o.padEnd(13)).join('')}`);
+  for (const op of ["publish", "subscribe"] as Operation[]) {
+    for (const expected of [true, false]) {
+      const row = checks.filter(c => c.op === op && c.expected === expected);
+      const cells = OBSERVED_OUTCOMES.map(observed => {
+        const count = row.filter(c => c.observed === observed).length;
+        const cell = count > 0 && !agreesWith(expected, observed) ? `❗${count}` : String(count);
+        return cell.padEnd(13);
+      });
+      console.log(`   ${`${op} ${expected ? "allow" : "deny"}`.padEnd(22)}${cells.join('')}`);
+    }
+  }
+
+  const disagreements = checks.filter(c => !agrees(c));
+  console.log(`\n   ${checks.length - disagreements.length}/${checks.length} checks agree with the config`);
+  if (disagreements.length === 0) {
+    return;
+  }
+
+  console.log("\n❗ Config and server disagree:");
+  for (const check of disagreements) {
+    console.log(`   ${check.cluster.padEnd(6)} ${check.user.padEnd(6)} ${check.op.toUpperCase().padEnd(10)} ${check.subject.padEnd(26)}` +
+      `config: ${check.expected ? 'allow' : 'deny'}, server: ${check.observed}`);
+  }
+}
+
 async function main() {
   console.log("🚀 NATS Permissions Debug Tool");
   console.log("===============================");
   console.log("Testing TLS certificate authentication and permissions");
   console.log("\nUsers are authenticated via TLS certificate email SANs:");
-  console.log("  - Foo: foo@localhost (full access)");
-  console.log("  - Bar: bar@localhost (limited access)");
-  
-  // Find target cluster
+  for (const user of listUsers()) {
+    console.log(`  - ${user.name}: ${user.email} (${user.description})`);
+  }
+
+  // Find target clusters (all of them unless one is named)
   const args = process.argv.slice(2);
-  const clusterName = args[0] || "main";
-  const targetCluster = clusters.find(c => c.name === clusterName);
-  
-  if (!targetCluster) {
-    console.log(`❌ Unknown cluster: ${clusterName}`);
-    console.log("Available clusters: main, leaf");
+  const targetClusters = args[0] ? [findCluster(args[0])] : listClusters();
+
+  if (!targetClusters[0]) {
+    console.log(`❌ Unknown cluster: ${args[0]}`);
+    console.log(`Available clusters: ${listClusters().map(c => c.name).join(', ')}`);
     console.log("\nUsage:");
     console.log("  npx tsx debug-permissions.ts [cluster]");
+    console.log("  npx tsx debug-permissions.ts          # Test every cluster");
     console.log("  npx tsx debug-permissions.ts main     # Test main cluster");
     console.log("  npx tsx debug-permissions.ts leaf     # Test leaf cluster");
     return;
   }
-  
-  console.log(`Target cluster: ${clusterName} (${targetCluster.description})`);
-  
-  for (const user of users) {
-    await testUserOnCluster(user, targetCluster);
-    await new Promise(resolve => setTimeout(resolve, 1000)); // Brief pause between users
+
+  const verdicts: PublishVerification[] = [];
+  const checks: PermissionCheck[] = [];
+
+  for (const targetCluster of targetClusters as ClusterInfo[]) {
+    console.log(`\nTarget cluster: ${targetCluster.name} (${targetCluster.description})`);
+    console.log(`Expectations from: ${targetCluster.configFile}`);
+
+    const observer = await connectObserver(targetCluster, testSubjects.map(t => t.subject));
+    console.log(`Publish observer: ${observer ? observer.user.name : 'none (verdicts rely on server errors only)'}`);
+
+    for (const user of listUsers()) {
+      await testUserOnCluster(user, targetCluster, observer?.nc, verdicts, checks);
+      await new Promise(resolve => setTimeout(resolve, 1000)); // Brief pause between users
+    }
+
+    await observer?.nc.close();
+    printPublishVerdicts(verdicts, targetCluster);
   }
 
-  console.log("\n📋 Expected Results:");
-  console.log("  SUBSCRIPTIONS:");
-  console.log("    - Foo User: All subjects should succeed");
-  console.log("    - Bar User: rpc.hello.world should fail, broad.rpc.* should succeed");
-  console.log("  PUBLISHES:");
-  console.log("    - All users: No client-side errors (server drops unauthorized publishes)");
-  console.log("\n📋 To verify publish permissions:");
-  console.log("  tail -f nats-server.log | grep -i 'violation\|permission'");
+  printConfusionMatrix(checks);
   console.log("\n✅ Debug test completed");
+
+  if (checks.some(c => !agrees(c))) {
+    process.exit(1);
+  }
 }
 
 main();
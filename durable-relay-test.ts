@@ -0,0 +1,266 @@
+#!/usr/bin/env node
+
+// NATS Durable Relay Test
+// Stops a --durable broadcast subscriber, publishes while it is away and starts it again:
+// what was sent in between must be replayed from the leaf's JetStream relay exactly once,
+// and what it had already acked must not come back
+
+import { connect, nuid, NatsConnection } from "nats";
+import { spawn, ChildProcess } from "child_process";
+import { getUser, getCluster, listClusters, buildConnectionOptions } from "./nats-topology.js";
+import { EventRecord, JSON_FLAG, onEvents, waitForReady } from "./nats-events.js";
+import { ClusterHarness, EMBEDDED_FLAG } from "./nats-server-harness.js";
+import { stampMessageId } from "./nats-dedup.js";
+import { envelopeHeaders } from "./nats-envelope.js";
+import { RELAY_STREAM } from "./nats-jetstream-relay.js";
+
+interface RelayMessage {
+  label: string;
+  subject: string;
+  publisher: string;
+  cluster: string;
+  broadcastId: string;
+}
+
+interface RunDeliveries {
+  cluster?: string;
+  received: Map<string, number>;   // broadcastId -> deliveries
+  viaConsumer: number;             // Deliveries that came through the durable consumer
+}
+
+const SUBSCRIBER = "bar";
+const DELIVERY_TIMEOUT_MS = 10000;
+// How long to keep listening once the expected messages arrived, for duplicates
+const DUPLICATE_SETTLE_MS = 1500;
+const STOP_TIMEOUT_MS = 5000;
+const POLL_INTERVAL_MS = 250;
+
+class DurableRelayTest {
+  private subscriber?: ChildProcess;
+  private harness?: ClusterHarness;
+  private failures: string[] = [];
+
+  constructor(private verbose = false, private embedded = false) {
+    process.on('SIGINT', () => this.stopSubscriber());
+    process.on('SIGTERM', () => this.stopSubscriber());
+  }
+
+  async run(): Promise<boolean> {
+    console.log("🚀 NATS Durable Relay Test");
+    console.log("==========================");
+    console.log(`${getUser(SUBSCRIBER).name} subscribes with --durable, misses messages while stopped and gets them on restart\n`);
+
+    const token = nuid.next();
+    const before: RelayMessage = {
+      label: "A", subject: `broadcast.relay.${token}.before`, publisher: "foo", cluster: "main", broadcastId: nuid.next()
+    };
+    const whileAway: RelayMessage[] = [
+      { label: "B", subject: `broadcast.relay.${token}.away`, publisher: "foo", cluster: "main", broadcastId: nuid.next() },
+      { label: "C", subject: `alert.relay.${token}.away`, publisher: "mmm", cluster: "leaf", broadcastId: nuid.next() }
+    ];
+
+    try {
+      if (this.embedded) {
+        console.log("🏗️  Starting embedded NATS clusters...");
+        this.harness = await ClusterHarness.start({ echoLogs: this.verbose });
+        for (const line of this.harness.describe()) {
+          console.log(`   ✅ ${line}`);
+        }
+        console.log("");
+      }
+
+      console.log("📡 Step 1: Live delivery through the durable consumer");
+      const first = await this.startSubscriber();
+      this.expect(first.cluster === "leaf", `${getUser(SUBSCRIBER).name} settled on ${first.cluster}, expected leaf`);
+      await this.publish(before);
+      await this.waitForDeliveries(first, [before]);
+      this.expect(first.received.get(before.broadcastId) === 1, `A delivered ${first.received.get(before.broadcastId) ?? 0} time(s) live`);
+      this.expect(first.viaConsumer > 0, "A did not come through the durable consumer");
+      await this.stopSubscriber();
+      console.log(`   🛑 ${getUser(SUBSCRIBER).name} stopped\n`);
+
+      console.log("📭 Step 2: Publishing while the subscriber is away");
+      for (const message of whileAway) {
+        await this.publish(message);
+      }
+      await this.waitForStored(whileAway);
+      console.log("");
+
+      console.log("🔁 Step 3: Restart and replay");
+      const second = await this.startSubscriber();
+      await this.waitForDeliveries(second, whileAway);
+      for (const message of whileAway) {
+        const count = second.received.get(message.broadcastId) ?? 0;
+        this.expect(count === 1, `${message.label} (${message.subject}) replayed ${count} time(s), expected once`);
+      }
+      const again = second.received.get(before.broadcastId) ?? 0;
+      this.expect(again === 0, `A was acked before the restart but came back ${again} time(s)`);
+    } catch (error) {
+      this.failures.push(error.message);
+      this.harness?.printLogTail();
+    } finally {
+      await this.stopSubscriber();
+      await this.harness?.stop();
+    }
+
+    return this.showSummary();
+  }
+
+  private expect(condition: boolean, failure: string) {
+    if (!condition) {
+      this.failures.push(failure);
+      console.log(`   ❌ ${failure}`);
+    }
+  }
+
+  private async startSubscriber(): Promise<RunDeliveries> {
+    const name = getUser(SUBSCRIBER).name;
+    const child = spawn("npx", ["tsx", "broadcast-subscriber.ts", SUBSCRIBER, "--durable", JSON_FLAG], { stdio: ["pipe", "pipe", "pipe"] });
+    this.subscriber = child;
+
+    const run: RunDeliveries = { received: new Map(), viaConsumer: 0 };
+    onEvents(child.stdout!, (record: EventRecord) => {
+      if (record.event === "message_received" && record.broadcastId) {
+        run.received.set(record.broadcastId, (run.received.get(record.broadcastId) ?? 0) + 1);
+        if (record.streamSeq !== undefined) {
+          run.viaConsumer++;
+        }
+        console.log(`   📨 ${record.subject} (stream seq ${record.streamSeq ?? "-"}${record.redelivered ? ", redelivered" : ""})`);
+      }
+    });
+
+    // In --json mode the subscriber's console output goes to stderr; keep it for diagnostics
+    let output = "";
+    child.stderr?.on('data', (data) => {
+      output += data.toString();
+      if (this.verbose) {
+        console.log(`   📋 [${name}] ${data.toString().trim()}`);
+      }
+    });
+
+    try {
+      const ready = await waitForReady(child.stdout!, name);
+      run.cluster = ready.cluster;
+    } catch (error) {
+      for (const line of output.trim().split('\n').slice(-10)) {
+        console.log(`   📋 ${name}: ${line}`);
+      }
+      throw error;
+    }
+    console.log(`   🎧 ${name} ready on ${run.cluster} cluster`);
+    return run;
+  }
+
+  private async publish(message: RelayMessage): Promise<void> {
+    const user = getUser(message.publisher);
+    const nc = await this.connectAs(message.publisher, message.cluster);
+    try {
+      nc.publish(message.subject, `Durable relay test ${message.label}`, {
+        headers: stampMessageId(message.broadcastId, envelopeHeaders({ user: user.name, cluster: message.cluster }))
+      });
+      await nc.flush();
+    } finally {
+      await nc.close();
+    }
+    console.log(`   📤 ${message.label}: ${message.subject} from ${user.name}@${message.cluster}`);
+  }
+
+  // Replication from main is asynchronous: make sure the stream holds the messages before
+  // the subscriber comes back, so a miss is the relay's fault and not the test's timing
+  private async waitForStored(messages: RelayMessage[]): Promise<void> {
+    const nc = await this.connectAs("foo", "leaf");
+    try {
+      const jsm = await nc.jetstreamManager();
+      for (const message of messages) {
+        const deadline = Date.now() + DELIVERY_TIMEOUT_MS;
+        while (true) {
+          try {
+            const stored = await jsm.streams.getMessage(RELAY_STREAM, { last_by_subj: message.subject });
+            console.log(`   💾 ${message.label} stored in ${RELAY_STREAM} at sequence ${stored.seq}`);
+            break;
+          } catch (error) {
+            if (Date.now() > deadline) {
+              throw new Error(`${message.label} (${message.subject}) never reached ${RELAY_STREAM}: ${error.message}`);
+            }
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+          }
+        }
+      }
+    } finally {
+      await nc.close();
+    }
+  }
+
+  private async waitForDeliveries(run: RunDeliveries, messages: RelayMessage[]): Promise<void> {
+    const deadline = Date.now() + DELIVERY_TIMEOUT_MS;
+    while (messages.some(m => !run.received.has(m.broadcastId)) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+    await new Promise(resolve => setTimeout(resolve, DUPLICATE_SETTLE_MS));
+  }
+
+  private connectAs(user: string, cluster: string): Promise<NatsConnection> {
+    return connect(buildConnectionOptions(getUser(user), getCluster(cluster), {
+      name: `durable_relay_test_${user}_${cluster}`
+    }));
+  }
+
+  private showSummary(): boolean {
+    console.log("\n📊 Durable Relay Results");
+    console.log("========================");
+    const passed = this.failures.length === 0;
+    for (const failure of this.failures) {
+      console.log(`   ❌ ${failure}`);
+    }
+    console.log(`\n${passed ? "🎉 Durable relay PASSED" : "💥 Durable relay FAILED"}: ` +
+      `${passed ? "missed messages replayed exactly once, acked ones not redelivered" : `${this.failures.length} problem(s)`}`);
+    return passed;
+  }
+
+  private async stopSubscriber(): Promise<void> {
+    const child = this.subscriber;
+    this.subscriber = undefined;
+    if (!child || child.exitCode !== null || child.signalCode !== null) {
+      return;
+    }
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        resolve();
+      }, STOP_TIMEOUT_MS);
+      child.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      child.kill('SIGTERM');
+    });
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log("🚀 NATS Durable Relay Test");
+    console.log("==========================");
+    console.log("Usage:");
+    console.log("  npx tsx durable-relay-test.ts                    # Against the running clusters (leaf needs JetStream)");
+    console.log("  npx tsx durable-relay-test.ts --verbose          # Also show the subscriber's console output");
+    console.log(`  npx tsx durable-relay-test.ts ${EMBEDDED_FLAG}         # Start nats-server on free ports for the run`);
+    return;
+  }
+
+  const embedded = args.includes(EMBEDDED_FLAG);
+  if (!embedded && listClusters().length < 2) {
+    console.error("❌ The durable relay test needs a main and a leaf cluster in the topology");
+    process.exit(1);
+  }
+
+  const test = new DurableRelayTest(args.includes('--verbose') || args.includes('-v'), embedded);
+  process.exit(await test.run() ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error("❌ Test error:", error);
+  process.exit(1);
+});
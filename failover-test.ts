@@ -0,0 +1,233 @@
+#!/usr/bin/env node
+
+// NATS Failover Test
+// Takes the main cluster away under a running broadcast subscriber and brings it back:
+// the subscriber must move to the leaf, keep receiving, fail back to main once it recovers,
+// and see every broadcast exactly once along the way
+
+import { connect, nuid, NatsConnection } from "nats";
+import { spawn, ChildProcess } from "child_process";
+import { getUser, getCluster, buildConnectionOptions } from "./nats-topology.js";
+import { EventRecord, JSON_FLAG, onEvents, waitForEvent, waitForReady } from "./nats-events.js";
+import { ClusterHarness, EMBEDDED_FLAG } from "./nats-server-harness.js";
+import { stampMessageId } from "./nats-dedup.js";
+import { envelopeHeaders } from "./nats-envelope.js";
+
+interface FailoverMessage {
+  label: string;
+  subject: string;
+  publisher: string;
+  cluster: string;
+  broadcastId: string;
+}
+
+const SUBSCRIBER = "foo";
+const FAILBACK_INTERVAL_MS = 2000;
+// Covers the client's reconnect attempts or the stale grace, then selection on the leaf
+const SWITCH_TIMEOUT_MS = 30000;
+const DELIVERY_TIMEOUT_MS = 10000;
+const DUPLICATE_SETTLE_MS = 1500;
+const STOP_TIMEOUT_MS = 5000;
+const POLL_INTERVAL_MS = 250;
+
+class FailoverTest {
+  private subscriber?: ChildProcess;
+  private harness?: ClusterHarness;
+  private received = new Map<string, { count: number; clusters: string[] }>();
+  private failures: string[] = [];
+
+  constructor(private verbose = false) {
+    process.on('SIGINT', () => this.stopSubscriber());
+    process.on('SIGTERM', () => this.stopSubscriber());
+  }
+
+  async run(): Promise<boolean> {
+    const name = getUser(SUBSCRIBER).name;
+    console.log("🚀 NATS Failover Test");
+    console.log("=====================");
+    console.log(`${name} subscribes on main, main goes down and comes back; every broadcast must arrive exactly once\n`);
+
+    const token = nuid.next();
+    const message = (label: string, publisher: string, cluster: string): FailoverMessage =>
+      ({ label, subject: `broadcast.failover.${token}.${label.toLowerCase()}`, publisher, cluster, broadcastId: nuid.next() });
+    const beforeOutage = message("X", "foo", "main");
+    const duringOutage = message("Y", "mmm", "leaf");
+    const afterFailback = message("Z", "foo", "main");
+
+    try {
+      console.log("🏗️  Starting embedded NATS clusters...");
+      this.harness = await ClusterHarness.start({ echoLogs: this.verbose });
+      for (const line of this.harness.describe()) {
+        console.log(`   ✅ ${line}`);
+      }
+      console.log("");
+
+      console.log("📡 Step 1: Subscriber on the preferred cluster");
+      const child = this.startSubscriber();
+      const ready = await waitForReady(child.stdout!, name);
+      this.expect(ready.cluster === "main", `${name} started on ${ready.cluster}, expected main`);
+      console.log(`   🎧 ${name} ready on ${ready.cluster} cluster`);
+      await this.publishAndWait(beforeOutage);
+      console.log("");
+
+      console.log("💥 Step 2: Main cluster outage");
+      const toLeaf = this.waitForSwitch(child, "leaf");
+      await this.harness.stopServer("main");
+      console.log("   🛑 main server stopped");
+      const failover = await toLeaf;
+      console.log(`   🔀 ${name} moved to ${failover.cluster} (${this.reason(failover)})`);
+      await this.publishAndWait(duringOutage);
+      console.log("");
+
+      console.log("🔙 Step 3: Main cluster recovers");
+      const toMain = this.waitForSwitch(child, "main");
+      await this.harness.restartServer("main");
+      console.log("   ✅ main server restarted and leaf link re-established");
+      const failback = await toMain;
+      console.log(`   🔀 ${name} moved back to ${failback.cluster} (${this.reason(failback)})`);
+      await this.publishAndWait(afterFailback);
+
+      await new Promise(resolve => setTimeout(resolve, DUPLICATE_SETTLE_MS));
+      for (const m of [beforeOutage, duringOutage, afterFailback]) {
+        const delivery = this.received.get(m.broadcastId);
+        this.expect(delivery?.count === 1, `${m.label} (${m.subject}) delivered ${delivery?.count ?? 0} time(s), expected once`);
+      }
+      this.expect(this.received.get(beforeOutage.broadcastId)?.clusters[0] === "main", "X was not received on main");
+      this.expect(this.received.get(duringOutage.broadcastId)?.clusters[0] === "leaf", "Y was not received on the leaf");
+      this.expect(this.received.get(afterFailback.broadcastId)?.clusters[0] === "main", "Z was not received on main after failback");
+    } catch (error) {
+      this.failures.push(error.message);
+      this.harness?.printLogTail();
+    } finally {
+      await this.stopSubscriber();
+      await this.harness?.stop();
+    }
+
+    return this.showSummary();
+  }
+
+  private expect(condition: boolean, failure: string) {
+    if (!condition) {
+      this.failures.push(failure);
+      console.log(`   ❌ ${failure}`);
+    }
+  }
+
+  private startSubscriber(): ChildProcess {
+    const name = getUser(SUBSCRIBER).name;
+    const child = spawn("npx", [
+      "tsx", "broadcast-subscriber.ts", SUBSCRIBER, "--failback-interval", String(FAILBACK_INTERVAL_MS), JSON_FLAG
+    ], { stdio: ["pipe", "pipe", "pipe"] });
+    this.subscriber = child;
+
+    onEvents(child.stdout!, (record: EventRecord) => {
+      if (record.event === "message_received" && record.broadcastId) {
+        const delivery = this.received.get(record.broadcastId) ?? { count: 0, clusters: [] };
+        delivery.count++;
+        delivery.clusters.push(record.cluster);
+        this.received.set(record.broadcastId, delivery);
+        console.log(`   📨 ${record.subject} on ${record.cluster} cluster`);
+      }
+    });
+
+    child.stderr?.on('data', (data) => {
+      if (this.verbose) {
+        console.log(`   📋 [${name}] ${data.toString().trim()}`);
+      }
+    });
+    child.once('exit', (code) => {
+      if (this.subscriber === child) {
+        this.failures.push(`${name} subscriber exited (code ${code})`);
+      }
+    });
+    return child;
+  }
+
+  private waitForSwitch(child: ChildProcess, cluster: string): Promise<EventRecord> {
+    return waitForEvent(child.stdout!, r => r.event === "cluster_switched" && r.cluster === cluster,
+      SWITCH_TIMEOUT_MS, `a switch to the ${cluster} cluster`);
+  }
+
+  private reason(record: EventRecord): string {
+    return record.event === "cluster_switched" ? record.reason : "unknown";
+  }
+
+  private async publishAndWait(message: FailoverMessage): Promise<void> {
+    const user = getUser(message.publisher);
+    const nc: NatsConnection = await connect(buildConnectionOptions(user, getCluster(message.cluster), {
+      name: `failover_test_${message.publisher}_${message.cluster}`
+    }));
+    try {
+      nc.publish(message.subject, `Failover test ${message.label}`, {
+        headers: stampMessageId(message.broadcastId, envelopeHeaders({ user: user.name, cluster: message.cluster }))
+      });
+      await nc.flush();
+    } finally {
+      await nc.close();
+    }
+    console.log(`   📤 ${message.label}: ${message.subject} from ${user.name}@${message.cluster}`);
+
+    const deadline = Date.now() + DELIVERY_TIMEOUT_MS;
+    while (!this.received.has(message.broadcastId) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  private showSummary(): boolean {
+    console.log("\n📊 Failover Results");
+    console.log("===================");
+    const passed = this.failures.length === 0;
+    for (const failure of this.failures) {
+      console.log(`   ❌ ${failure}`);
+    }
+    console.log(`\n${passed ? "🎉 Failover PASSED" : "💥 Failover FAILED"}: ` +
+      `${passed ? "failed over to leaf, failed back to main, every broadcast once" : `${this.failures.length} problem(s)`}`);
+    return passed;
+  }
+
+  private async stopSubscriber(): Promise<void> {
+    const child = this.subscriber;
+    this.subscriber = undefined;
+    if (!child || child.exitCode !== null || child.signalCode !== null) {
+      return;
+    }
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        resolve();
+      }, STOP_TIMEOUT_MS);
+      child.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      child.kill('SIGTERM');
+    });
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log("🚀 NATS Failover Test");
+    console.log("=====================");
+    console.log("Usage:");
+    console.log(`  npx tsx failover-test.ts ${EMBEDDED_FLAG}             # Start nats-server on free ports, stop and restart main`);
+    console.log(`  npx tsx failover-test.ts ${EMBEDDED_FLAG} --verbose   # Also show the subscriber's console output`);
+    return;
+  }
+
+  // Taking a cluster down needs servers this process owns
+  if (!args.includes(EMBEDDED_FLAG)) {
+    console.error(`❌ The failover test stops and restarts the main server, so it only runs with ${EMBEDDED_FLAG}`);
+    process.exit(1);
+  }
+
+  const test = new FailoverTest(args.includes('--verbose') || args.includes('-v'));
+  process.exit(await test.run() ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error("❌ Test error:", error);
+  process.exit(1);
+});
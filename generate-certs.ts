@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+
+// NATS Certificate Generator
+// Creates the CA, server and per-user client certificates in ./certs (what generate-certs.sh
+// did with openssl), and mints extra or deliberately broken identities from an existing CA
+
+import { existsSync } from "fs";
+import { isAbsolute, join } from "path";
+import { listLinkIdentities, listUsers } from "./nats-topology.js";
+import {
+  BrokenCertKind,
+  BROKEN_CERT_KINDS,
+  CertificateAuthority,
+  CertificateOptions,
+  DEFAULT_VALID_DAYS,
+  KeyType,
+  writeCertificate
+} from "./nats-ca.js";
+
+interface GeneratorOptions {
+  dir: string;
+  certOptions: Partial<CertificateOptions>;
+  positional: string[];
+}
+
+function parseArgs(args: string[]): GeneratorOptions {
+  const options: GeneratorOptions = { dir: "certs", certOptions: {}, positional: [] };
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--dir":
+        options.dir = args[++i];
+        break;
+      case "--days":
+        options.certOptions.validDays = Number(args[++i]);
+        break;
+      case "--key":
+        options.certOptions.keyType = args[++i] as KeyType;
+        break;
+      default:
+        options.positional.push(args[i]);
+    }
+  }
+  return options;
+}
+
+function loadCa(dir: string): CertificateAuthority {
+  const certFile = join(dir, "ca-cert.pem");
+  const keyFile = join(dir, "ca-key.pem");
+  if (!existsSync(certFile) || !existsSync(keyFile)) {
+    throw new Error(`No CA in ${dir}. Run "npx tsx generate-certs.ts" first`);
+  }
+  return CertificateAuthority.load(certFile, keyFile);
+}
+
+function generateAll(options: GeneratorOptions): void {
+  console.log("🔐 Generating certificates for NATS TLS authentication...");
+  console.log("==============================================");
+
+  const ca = CertificateAuthority.create(options.certOptions);
+  ca.writeFiles(options.dir);
+  console.log("📋 Certificate Authority:  ca-cert.pem / ca-key.pem");
+
+  writeCertificate(options.dir, "server", ca.issueServer(options.certOptions));
+  console.log("📋 NATS server:            server-cert.pem / server-key.pem (localhost, 127.0.0.1, ::1)");
+
+  for (const user of listUsers()) {
+    writeCertificate(options.dir, user.id, ca.issueClient(user.email, options.certOptions));
+    console.log(`📋 ${user.name.padEnd(24)}${user.id}-cert.pem / ${user.id}-key.pem (${user.email})`);
+  }
+
+  for (const identity of listLinkIdentities()) {
+    writeCertificate(options.dir, identity.id, ca.issueClient(identity.email, options.certOptions));
+    console.log(`🔗 ${identity.name.padEnd(24)}${identity.id}-cert.pem / ${identity.id}-key.pem (${identity.email}, leaf link)`);
+  }
+
+  console.log("");
+  console.log(`✅ Certificate generation completed in ${options.dir}/`);
+  console.log(`🔒 Certificate validity: ${options.certOptions.validDays ?? DEFAULT_VALID_DAYS} days`);
+}
+
+function generateUser(options: GeneratorOptions, id: string, email: string): void {
+  const ca = loadCa(options.dir);
+  const files = writeCertificate(options.dir, id, ca.issueClient(email, options.certOptions));
+
+  console.log(`✅ Issued ${email}: ${files.certFile} / ${files.keyFile}`);
+  console.log("");
+  console.log("💡 Add the identity to nats-topology.json and a matching user to the cluster configs:");
+  console.log(JSON.stringify({
+    id,
+    name: id,
+    email,
+    certFile: topologyPath(files.certFile),
+    keyFile: topologyPath(files.keyFile),
+    caFile: topologyPath(join(options.dir, "ca-cert.pem")),
+    description: ""
+  }, null, 2));
+}
+
+// nats-topology.json spells repo-relative paths as ./certs/...
+function topologyPath(file: string): string {
+  return isAbsolute(file) ? file : `./${file}`;
+}
+
+function generateBroken(options: GeneratorOptions, kind: BrokenCertKind, email: string): void {
+  if (!BROKEN_CERT_KINDS.includes(kind)) {
+    throw new Error(`Unknown broken certificate kind: ${kind} (available: ${BROKEN_CERT_KINDS.join(', ')})`);
+  }
+  const ca = loadCa(options.dir);
+  const files = writeCertificate(options.dir, `broken-${kind}`, ca.issueBroken(kind, email, options.certOptions));
+  console.log(`🧨 Issued ${kind} certificate for ${email}: ${files.certFile} / ${files.keyFile}`);
+}
+
+function showUsage(): void {
+  console.log("Usage:");
+  console.log("  npx tsx generate-certs.ts [--dir certs] [--days 365] [--key rsa|ec]");
+  console.log("      CA, server, one client certificate per topology user and one per leaf link");
+  console.log("  npx tsx generate-certs.ts user <id> <email> [--days N] [--key rsa|ec]");
+  console.log("      Extra client identity signed by the existing CA");
+  console.log(`  npx tsx generate-certs.ts broken <${BROKEN_CERT_KINDS.join('|')}> <email>`);
+  console.log("      Deliberately invalid client certificate for negative tests");
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const [command, ...rest] = options.positional;
+
+  switch (command) {
+    case undefined:
+    case "all":
+      generateAll(options);
+      break;
+    case "user":
+      if (rest.length < 2) {
+        showUsage();
+        process.exit(1);
+      }
+      generateUser(options, rest[0], rest[1]);
+      break;
+    case "broken":
+      if (rest.length < 2) {
+        showUsage();
+        process.exit(1);
+      }
+      generateBroken(options, rest[0] as BrokenCertKind, rest[1]);
+      break;
+    default:
+      showUsage();
+      process.exit(command === "--help" || command === "-h" ? 0 : 1);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
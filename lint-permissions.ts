@@ -0,0 +1,197 @@
+#!/usr/bin/env node
+
+// NATS Permission Linter
+// Reads the cluster configs (no server needed), prints every user's effective allow/deny
+// per cluster, flags hazards, and answers "can user X publish/subscribe Y on cluster Z"
+
+import { basename } from "path";
+import { UserConfig, listClusters, listUsers, listLinkIdentities, findCluster, findUser } from "./nats-topology.js";
+import { NatsConfigMap, loadNatsConfig } from "./nats-config.js";
+import { PermissionSet, describePermissionSet, explainPermission, resolveUserPermissions } from "./nats-permissions.js";
+import { HazardSeverity, PermissionHazard, acceptsClients, getDefaultPermissions, lintAuthorization, listConfiguredUsers } from "./nats-permission-lint.js";
+
+interface LintTarget {
+  name: string;
+  configFile: string;
+  config: NatsConfigMap;
+}
+
+const SEVERITY_ICONS: Record<HazardSeverity, string> = { high: "🔴", medium: "🟠", low: "🟡" };
+
+function loadTargets(clusterNames: string[], configFiles: string[]): LintTarget[] {
+  const targets: LintTarget[] = configFiles.map(file => ({
+    name: basename(file, ".conf"),
+    configFile: file,
+    config: loadNatsConfig(file)
+  }));
+
+  if (configFiles.length === 0 || clusterNames.length > 0) {
+    const clusters = clusterNames.length > 0 ? clusterNames.map(name => findCluster(name)) : listClusters();
+    for (const [i, cluster] of clusters.entries()) {
+      if (!cluster) {
+        throw new Error(`Unknown cluster: ${clusterNames[i]} (available: ${listClusters().map(c => c.name).join(', ')})`);
+      }
+      targets.push({ name: cluster.name, configFile: cluster.configFile, config: loadNatsConfig(cluster.configFile) });
+    }
+  }
+  return targets;
+}
+
+function formatSet(set: PermissionSet): string {
+  if (set.deny.includes(">")) {
+    return "nothing (deny: >)";
+  }
+  return set.allow.length === 0 && set.deny.length === 0 ? "> (no restrictions)" : describePermissionSet(set);
+}
+
+function displayName(identity: string): string {
+  const user = [...listUsers(), ...listLinkIdentities()].find(u => u.email === identity);
+  return user ? `${user.name} (${identity})` : `${identity} (not in topology)`;
+}
+
+function showTarget(target: LintTarget, hazards: PermissionHazard[]) {
+  console.log(`\n🔍 ${target.name} (${target.configFile})`);
+  console.log("=".repeat(60));
+
+  const defaults = getDefaultPermissions(target.config);
+  console.log("   default_permissions");
+  console.log(`      publish:   ${formatSet(defaults.publish)}`);
+  console.log(`      subscribe: ${formatSet(defaults.subscribe)}`);
+
+  for (const user of listConfiguredUsers(target.config)) {
+    const notes = [
+      user.explicit ? "" : " - inherits default_permissions",
+      acceptsClients(user) ? "" : ` - ${user.connectionTypes.join(", ")} connections only`
+    ];
+    console.log(`   👤 ${displayName(user.identity)}${notes.join("")}`);
+    console.log(`      publish:   ${formatSet(user.permissions.publish)}`);
+    console.log(`      subscribe: ${formatSet(user.permissions.subscribe)}`);
+  }
+
+  if (hazards.length === 0) {
+    console.log("\n   ✅ No hazards found");
+    return;
+  }
+  console.log(`\n   ⚠️  Hazards (${hazards.length}):`);
+  for (const hazard of hazards) {
+    console.log(`      ${SEVERITY_ICONS[hazard.severity]} ${hazard.severity.padEnd(7)}${hazard.code.padEnd(25)}${hazard.message}`);
+  }
+}
+
+function runLint(targets: LintTarget[], strict: boolean): boolean {
+  console.log("🚀 NATS Permission Linter");
+  console.log("=========================");
+
+  const allHazards: PermissionHazard[] = [];
+  for (const target of targets) {
+    const hazards = lintAuthorization(target.config, target.name, listUsers());
+    allHazards.push(...hazards);
+    showTarget(target, hazards);
+  }
+
+  const high = allHazards.filter(h => h.severity === "high").length;
+  console.log(`\n📊 ${allHazards.length} hazard(s) across ${targets.length} config(s), ${high} high`);
+  return !strict || high === 0;
+}
+
+function resolveIdentity(userArg: string): { label: string; email: string } {
+  const user: UserConfig | undefined = findUser(userArg);
+  if (user) {
+    return { label: user.name, email: user.email };
+  }
+  if (userArg.includes("@")) {
+    return { label: userArg, email: userArg };
+  }
+  throw new Error(`Unknown user: ${userArg} (available: ${listUsers().map(u => u.id).join(', ')}, or pass a certificate email)`);
+}
+
+// Answers for every target; returns true only if the operation is allowed on all of them
+function runCan(targets: LintTarget[], userArg: string, opArg: string, subject: string): boolean {
+  const op = opArg.startsWith("pub") ? "publish" : opArg.startsWith("sub") ? "subscribe" : null;
+  if (!op) {
+    throw new Error(`Unknown operation: ${opArg} (use publish or subscribe)`);
+  }
+  const { label, email } = resolveIdentity(userArg);
+
+  let allowedEverywhere = true;
+  for (const target of targets) {
+    const { permissions, matchedUser } = resolveUserPermissions(target.config, email);
+    const set = permissions[op];
+    const decision = explainPermission(set, subject);
+    allowedEverywhere &&= decision.allowed;
+
+    let reason: string;
+    if (decision.deniedBy) {
+      reason = `denied by "${decision.deniedBy}"`;
+    } else if (decision.allowed) {
+      reason = `allowed by "${decision.allowedBy}"`;
+    } else {
+      reason = `no allow rule matches (allow: ${set.allow.join(", ")})`;
+    }
+
+    console.log(`${decision.allowed ? "✅" : "🚫"} ${target.name}: ${label} ${decision.allowed ? "may" : "may not"} ${op} ${subject} - ${reason}`);
+    if (!matchedUser) {
+      console.log(`   ⚠️  ${email} has no user entry: default_permissions shown, but verify_and_map rejects the connection`);
+    }
+    if (decision.partialDenies.length > 0) {
+      console.log(`   ⚠️  Accepted, but messages on ${decision.partialDenies.join(", ")} are filtered out`);
+    }
+  }
+  return allowedEverywhere;
+}
+
+function showUsage() {
+  console.log("Usage:");
+  console.log("  npx tsx lint-permissions.ts [--cluster <name>]... [--config <file>]... [--strict]");
+  console.log("      Effective permissions per user and hazards (--strict exits 1 on high hazards)");
+  console.log("  npx tsx lint-permissions.ts can <user|email> <publish|subscribe> <subject> [--cluster <name>]");
+  console.log("      Exits 0 if allowed on every selected cluster, 1 otherwise");
+  console.log("");
+  console.log("Examples:");
+  console.log("  npx tsx lint-permissions.ts --config nats-server.conf");
+  console.log("  npx tsx lint-permissions.ts can bar publish rpc.hello.world");
+  console.log("  npx tsx lint-permissions.ts can mmm subscribe 'broad.rpc.*' --cluster main");
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const clusterNames: string[] = [];
+  const configFiles: string[] = [];
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--cluster") {
+      clusterNames.push(args[++i]);
+    } else if (args[i] === "--config") {
+      configFiles.push(args[++i]);
+    } else if (args[i] === "--help" || args[i] === "-h") {
+      showUsage();
+      return;
+    } else if (!args[i].startsWith("--")) {
+      positional.push(args[i]);
+    }
+  }
+
+  const targets = loadTargets(clusterNames, configFiles);
+  const [command, ...rest] = positional;
+
+  if (command === "can") {
+    if (rest.length < 3) {
+      showUsage();
+      process.exit(1);
+    }
+    process.exit(runCan(targets, rest[0], rest[1], rest[2]) ? 0 : 1);
+  }
+  if (command !== undefined) {
+    showUsage();
+    process.exit(1);
+  }
+  process.exit(runLint(targets, args.includes("--strict")) ? 0 : 1);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
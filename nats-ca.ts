@@ -0,0 +1,472 @@
+// NATS Test Certificate Authority
+// Mints the CA, server and client certificates that generate-certs.sh used to create with
+// openssl, in-process and on demand: arbitrary email/DNS/IP SANs, validity, key usage and
+// key type, plus deliberately broken client certificates for negative tests
+
+import { createHash, generateKeyPairSync, randomBytes, sign, KeyObject, X509Certificate, createPrivateKey } from "crypto";
+import { chmodSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { isIPv4, isIPv6 } from "net";
+import { join } from "path";
+import { UserConfig } from "./nats-topology.js";
+
+export type KeyType = "rsa" | "ec";
+
+export type KeyUsage =
+  | "digitalSignature" | "nonRepudiation" | "keyEncipherment" | "dataEncipherment"
+  | "keyAgreement" | "keyCertSign" | "cRLSign";
+
+export type ExtendedKeyUsage = "serverAuth" | "clientAuth";
+
+// expired       - validity ended yesterday
+// not-yet-valid - validity starts tomorrow
+// wrong-ca      - signed by a look-alike CA (same subject name, different key)
+// missing-san   - no subjectAltName, so verify_and_map has no email to map
+// wrong-usage   - extended key usage only allows serverAuth
+export type BrokenCertKind = "expired" | "not-yet-valid" | "wrong-ca" | "missing-san" | "wrong-usage";
+
+export const BROKEN_CERT_KINDS: BrokenCertKind[] = ["expired", "not-yet-valid", "wrong-ca", "missing-san", "wrong-usage"];
+export const DEFAULT_VALID_DAYS = 365;
+
+export interface CertificateOptions {
+  commonName: string;
+  organization?: string;
+  emails?: string[];
+  dnsNames?: string[];
+  ipAddresses?: string[];
+  notBefore?: Date;                       // Defaults to one minute ago (clock skew)
+  notAfter?: Date;                        // Defaults to notBefore + validDays
+  validDays?: number;                     // Defaults to DEFAULT_VALID_DAYS
+  keyType?: KeyType;                      // Defaults to "rsa" (2048 bit)
+  keyUsage?: KeyUsage[];
+  extendedKeyUsage?: ExtendedKeyUsage[];  // Omitted from the certificate when empty
+}
+
+export interface IssuedCertificate {
+  certPem: string;
+  keyPem: string;
+  serialNumber: string;
+  notBefore: Date;
+  notAfter: Date;
+}
+
+export interface CertificateFiles {
+  certFile: string;
+  keyFile: string;
+}
+
+// Same key usage generate-certs.sh put on every leaf certificate
+const LEAF_KEY_USAGE: KeyUsage[] = ["digitalSignature", "nonRepudiation", "keyEncipherment", "dataEncipherment"];
+const KEY_USAGE_BITS: KeyUsage[] = [
+  "digitalSignature", "nonRepudiation", "keyEncipherment", "dataEncipherment", "keyAgreement", "keyCertSign", "cRLSign"
+];
+
+const OID = {
+  commonName: "2.5.4.3",
+  organization: "2.5.4.10",
+  sha256WithRSA: "1.2.840.113549.1.1.11",
+  ecdsaWithSHA256: "1.2.840.10045.4.3.2",
+  subjectKeyIdentifier: "2.5.29.14",
+  keyUsage: "2.5.29.15",
+  subjectAltName: "2.5.29.17",
+  basicConstraints: "2.5.29.19",
+  authorityKeyIdentifier: "2.5.29.35",
+  extKeyUsage: "2.5.29.37",
+  serverAuth: "1.3.6.1.5.5.7.3.1",
+  clientAuth: "1.3.6.1.5.5.7.3.2"
+};
+
+export class CertificateAuthority {
+  private constructor(
+    readonly certPem: string,
+    private privateKey: KeyObject,
+    private subject: Buffer,  // DER-encoded Name, copied verbatim into issued certs
+    private keyId: Buffer
+  ) {}
+
+  static create(options: Partial<CertificateOptions> = {}): CertificateAuthority {
+    const { publicKey, privateKey } = generateKey(options.keyType ?? "rsa");
+    const subject = encodeName(options.commonName ?? "NATS-CA", options.organization ?? "NATS-POC");
+    const keyId = subjectKeyId(publicKey);
+    const { notBefore, notAfter } = validity(options);
+
+    const tbs = tbsCertificate({
+      issuer: subject,
+      subject,
+      publicKey,
+      notBefore,
+      notAfter,
+      signer: privateKey,
+      extensions: [
+        extension(OID.basicConstraints, true, sequence(boolean(true))),
+        extension(OID.keyUsage, true, keyUsageBits(options.keyUsage ?? ["keyCertSign", "cRLSign"])),
+        extension(OID.subjectKeyIdentifier, false, octetString(keyId))
+      ]
+    });
+    return new CertificateAuthority(toPem("CERTIFICATE", signCertificate(tbs, privateKey)), privateKey, subject, keyId);
+  }
+
+  // Loads a CA from PEM files, e.g. the certs/ca-cert.pem + ca-key.pem from a previous run
+  static load(certFile: string, keyFile: string): CertificateAuthority {
+    const certPem = readFileSync(certFile, "utf8");
+    const privateKey = createPrivateKey(readFileSync(keyFile));
+    const cert = new X509Certificate(certPem);
+    if (!cert.ca) {
+      throw new Error(`${certFile} is not a CA certificate`);
+    }
+    return new CertificateAuthority(certPem, privateKey, subjectOf(cert.raw), subjectKeyId(cert.publicKey));
+  }
+
+  get keyPem(): string {
+    return this.privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+  }
+
+  issue(options: CertificateOptions): IssuedCertificate {
+    const { publicKey, privateKey } = generateKey(options.keyType ?? "rsa");
+    const { notBefore, notAfter } = validity(options);
+    const serial = serialNumber();
+
+    const extensions = [
+      extension(OID.basicConstraints, true, sequence()),
+      extension(OID.keyUsage, true, keyUsageBits(options.keyUsage ?? LEAF_KEY_USAGE)),
+      extension(OID.subjectKeyIdentifier, false, octetString(subjectKeyId(publicKey))),
+      extension(OID.authorityKeyIdentifier, false, sequence(contextPrimitive(0, this.keyId)))
+    ];
+    if (options.extendedKeyUsage?.length) {
+      extensions.push(extension(OID.extKeyUsage, false, sequence(...options.extendedKeyUsage.map(eku => oid(OID[eku])))));
+    }
+    const altNames = subjectAltNames(options);
+    if (altNames.length > 0) {
+      extensions.push(extension(OID.subjectAltName, false, sequence(...altNames)));
+    }
+
+    const tbs = tbsCertificate({
+      serial,
+      issuer: this.subject,
+      subject: encodeName(options.commonName, options.organization),
+      publicKey,
+      notBefore,
+      notAfter,
+      signer: this.privateKey,
+      extensions
+    });
+
+    return {
+      certPem: toPem("CERTIFICATE", signCertificate(tbs, this.privateKey)),
+      keyPem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+      serialNumber: serial.toString("hex"),
+      notBefore,
+      notAfter
+    };
+  }
+
+  // Matches the server certificate from generate-certs.sh
+  issueServer(options: Partial<CertificateOptions> = {}): IssuedCertificate {
+    return this.issue({
+      commonName: "nats-server",
+      organization: "NATS-SERVER",
+      dnsNames: ["localhost"],
+      ipAddresses: ["127.0.0.1", "::1"],
+      ...options
+    });
+  }
+
+  // Client identity mapped by verify_and_map through its email SAN
+  issueClient(email: string, options: Partial<CertificateOptions> = {}): IssuedCertificate {
+    const localPart = email.split("@")[0];
+    return this.issue({
+      commonName: `${localPart}_user`,
+      organization: "NATS-CLIENT",
+      emails: [email],
+      dnsNames: [`${localPart}_user`],
+      ...options
+    });
+  }
+
+  issueBroken(kind: BrokenCertKind, email: string, options: Partial<CertificateOptions> = {}): IssuedCertificate {
+    const day = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+
+    switch (kind) {
+      case "expired":
+        return this.issueClient(email, { ...options, notBefore: new Date(now - 30 * day), notAfter: new Date(now - day) });
+      case "not-yet-valid":
+        return this.issueClient(email, { ...options, notBefore: new Date(now + day), notAfter: new Date(now + 30 * day) });
+      case "wrong-ca": {
+        const cert = new X509Certificate(this.certPem);
+        const lookAlike = CertificateAuthority.create({ commonName: cnOf(cert.subject), organization: orgOf(cert.subject) });
+        return lookAlike.issueClient(email, options);
+      }
+      case "missing-san":
+        return this.issueClient(email, { ...options, emails: [], dnsNames: [], ipAddresses: [] });
+      case "wrong-usage":
+        return this.issueClient(email, { ...options, extendedKeyUsage: ["serverAuth"] });
+    }
+  }
+
+  writeFiles(dir: string, name: string = "ca"): CertificateFiles {
+    return writeCertificate(dir, name, { certPem: this.certPem, keyPem: this.keyPem });
+  }
+}
+
+// Writes <name>-cert.pem / <name>-key.pem with the same modes generate-certs.sh used
+export function writeCertificate(dir: string, name: string, issued: Pick<IssuedCertificate, "certPem" | "keyPem">): CertificateFiles {
+  mkdirSync(dir, { recursive: true });
+  const certFile = join(dir, `${name}-cert.pem`);
+  const keyFile = join(dir, `${name}-key.pem`);
+  writeFileSync(certFile, issued.certPem);
+  writeFileSync(keyFile, issued.keyPem);
+  chmodSync(certFile, 0o644);
+  chmodSync(keyFile, 0o600);
+  return { certFile, keyFile };
+}
+
+// Mints a client certificate into dir and returns a topology user for it
+export function createIdentity(
+  ca: CertificateAuthority,
+  dir: string,
+  caFile: string,
+  user: Pick<UserConfig, "id" | "email"> & Partial<UserConfig>,
+  options: Partial<CertificateOptions> = {}
+): UserConfig {
+  const { certFile, keyFile } = writeCertificate(dir, user.id, ca.issueClient(user.email, options));
+  return {
+    name: user.id,
+    description: "Ephemeral test identity",
+    ...user,
+    certFile,
+    keyFile,
+    caFile
+  };
+}
+
+// --- Certificate structure ---
+
+interface TbsFields {
+  serial?: Buffer;
+  issuer: Buffer;
+  subject: Buffer;
+  publicKey: KeyObject;
+  notBefore: Date;
+  notAfter: Date;
+  signer: KeyObject;
+  extensions: Buffer[];
+}
+
+function tbsCertificate(fields: TbsFields): Buffer {
+  return sequence(
+    contextConstructed(0, integer(Buffer.from([2]))),  // v3
+    integer(fields.serial ?? serialNumber()),
+    signatureAlgorithm(fields.signer),
+    fields.issuer,
+    sequence(encodeTime(fields.notBefore), encodeTime(fields.notAfter)),
+    fields.subject,
+    fields.publicKey.export({ type: "spki", format: "der" }),
+    contextConstructed(3, sequence(...fields.extensions))
+  );
+}
+
+function signCertificate(tbs: Buffer, signer: KeyObject): Buffer {
+  return sequence(tbs, signatureAlgorithm(signer), bitString(sign("sha256", tbs, signer)));
+}
+
+function signatureAlgorithm(signer: KeyObject): Buffer {
+  return signer.asymmetricKeyType === "ec"
+    ? sequence(oid(OID.ecdsaWithSHA256))
+    : sequence(oid(OID.sha256WithRSA), der(0x05, Buffer.alloc(0)));
+}
+
+function generateKey(keyType: KeyType): { publicKey: KeyObject; privateKey: KeyObject } {
+  return keyType === "ec"
+    ? generateKeyPairSync("ec", { namedCurve: "prime256v1" })
+    : generateKeyPairSync("rsa", { modulusLength: 2048 });
+}
+
+function validity(options: Partial<CertificateOptions>): { notBefore: Date; notAfter: Date } {
+  const notBefore = options.notBefore ?? new Date(Date.now() - 60 * 1000);
+  const notAfter = options.notAfter ?? new Date(notBefore.getTime() + (options.validDays ?? DEFAULT_VALID_DAYS) * 24 * 60 * 60 * 1000);
+  return { notBefore, notAfter };
+}
+
+function serialNumber(): Buffer {
+  const serial = randomBytes(16);
+  serial[0] = (serial[0] & 0x7f) | 0x01;  // Positive and without a leading zero byte
+  return serial;
+}
+
+function encodeName(commonName: string, organization?: string): Buffer {
+  const rdn = (type: string, value: string) => set(sequence(oid(type), der(0x0c, Buffer.from(value, "utf8"))));
+  return organization
+    ? sequence(rdn(OID.commonName, commonName), rdn(OID.organization, organization))
+    : sequence(rdn(OID.commonName, commonName));
+}
+
+function subjectAltNames(options: CertificateOptions): Buffer[] {
+  return [
+    ...(options.emails ?? []).map(email => contextPrimitive(1, Buffer.from(email, "ascii"))),
+    ...(options.dnsNames ?? []).map(name => contextPrimitive(2, Buffer.from(name, "ascii"))),
+    ...(options.ipAddresses ?? []).map(ip => contextPrimitive(7, ipBytes(ip)))
+  ];
+}
+
+function keyUsageBits(usages: KeyUsage[]): Buffer {
+  let bits = 0;
+  for (const usage of usages) {
+    bits |= 0x80 >> KEY_USAGE_BITS.indexOf(usage);
+  }
+  // DER drops trailing zero bits and records how many were unused
+  let unused = 0;
+  while (unused < 8 && bits !== 0 && !(bits & (1 << unused))) unused++;
+  return der(0x03, Buffer.from([unused, bits]));
+}
+
+// RFC 5280 method 1: SHA-1 of the subjectPublicKey bit string
+function subjectKeyId(publicKey: KeyObject): Buffer {
+  const spki = publicKey.export({ type: "spki", format: "der" });
+  const [, keyBits] = children(spki, readTlv(spki, 0));
+  return createHash("sha1").update(spki.subarray(keyBits.start + 1, keyBits.end)).digest();
+}
+
+// Raw DER of the subject Name inside a certificate
+function subjectOf(certDer: Buffer): Buffer {
+  const [tbs] = children(certDer, readTlv(certDer, 0));
+  const fields = children(certDer, tbs);
+  const offset = fields[0].tag === 0xa0 ? 1 : 0;  // Skip the explicit version
+  const subject = fields[offset + 4];
+  return certDer.subarray(subject.offset, subject.end);
+}
+
+function cnOf(dn: string): string {
+  return dn.split("\n").find(part => part.startsWith("CN="))?.slice(3) ?? "NATS-CA";
+}
+
+function orgOf(dn: string): string | undefined {
+  return dn.split("\n").find(part => part.startsWith("O="))?.slice(2);
+}
+
+function ipBytes(ip: string): Buffer {
+  if (isIPv4(ip)) {
+    return Buffer.from(ip.split(".").map(Number));
+  }
+  if (!isIPv6(ip)) {
+    throw new Error(`Invalid IP address: ${ip}`);
+  }
+  const [head, tail] = ip.split("::");
+  const groups = (part?: string) => (part ? part.split(":") : []);
+  const missing = 8 - groups(head).length - groups(tail).length;
+  const all = ip.includes("::")
+    ? [...groups(head), ...Array(missing).fill("0"), ...groups(tail)]
+    : groups(ip);
+  const bytes = Buffer.alloc(16);
+  all.forEach((group, i) => bytes.writeUInt16BE(parseInt(group, 16), i * 2));
+  return bytes;
+}
+
+function toPem(label: string, body: Buffer): string {
+  const lines = body.toString("base64").match(/.{1,64}/g) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join("\n")}\n-----END ${label}-----\n`;
+}
+
+// --- Minimal DER encoding ---
+
+function der(tag: number, content: Buffer): Buffer {
+  const length = content.length;
+  let header: Buffer;
+  if (length < 0x80) {
+    header = Buffer.from([tag, length]);
+  } else {
+    const lengthBytes: number[] = [];
+    for (let n = length; n > 0; n >>= 8) lengthBytes.unshift(n & 0xff);
+    header = Buffer.from([tag, 0x80 | lengthBytes.length, ...lengthBytes]);
+  }
+  return Buffer.concat([header, content]);
+}
+
+function sequence(...items: Buffer[]): Buffer {
+  return der(0x30, Buffer.concat(items));
+}
+
+function set(...items: Buffer[]): Buffer {
+  return der(0x31, Buffer.concat(items));
+}
+
+function integer(value: Buffer): Buffer {
+  return der(0x02, value[0] & 0x80 ? Buffer.concat([Buffer.from([0]), value]) : value);
+}
+
+function boolean(value: boolean): Buffer {
+  return der(0x01, Buffer.from([value ? 0xff : 0x00]));
+}
+
+function bitString(value: Buffer): Buffer {
+  return der(0x03, Buffer.concat([Buffer.from([0]), value]));
+}
+
+function octetString(value: Buffer): Buffer {
+  return der(0x04, value);
+}
+
+function oid(dotted: string): Buffer {
+  const [first, second, ...rest] = dotted.split(".").map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const chunk = [arc & 0x7f];
+    for (let n = arc >> 7; n > 0; n >>= 7) chunk.unshift((n & 0x7f) | 0x80);
+    bytes.push(...chunk);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+function contextPrimitive(tag: number, value: Buffer): Buffer {
+  return der(0x80 | tag, value);
+}
+
+function contextConstructed(tag: number, value: Buffer): Buffer {
+  return der(0xa0 | tag, value);
+}
+
+function extension(id: string, critical: boolean, value: Buffer): Buffer {
+  return critical
+    ? sequence(oid(id), boolean(true), octetString(value))
+    : sequence(oid(id), octetString(value));
+}
+
+// UTCTime until 2049, GeneralizedTime after, as RFC 5280 requires
+function encodeTime(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, "").slice(0, 14) + "Z";
+  const year = date.getUTCFullYear();
+  return year >= 1950 && year < 2050
+    ? der(0x17, Buffer.from(iso.slice(2), "ascii"))
+    : der(0x18, Buffer.from(iso, "ascii"));
+}
+
+// --- Minimal DER reading (enough to find a CA's subject and key) ---
+
+interface Tlv {
+  tag: number;
+  offset: number;  // Start of the header
+  start: number;   // Start of the content
+  end: number;
+}
+
+function readTlv(buf: Buffer, offset: number): Tlv {
+  const tag = buf[offset];
+  let length = buf[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < count; i++) length = (length << 8) | buf[start + i];
+    start += count;
+  }
+  return { tag, offset, start, end: start + length };
+}
+
+function children(buf: Buffer, parent: Tlv): Tlv[] {
+  const items: Tlv[] = [];
+  for (let offset = parent.start; offset < parent.end; ) {
+    const item = readTlv(buf, offset);
+    items.push(item);
+    offset = item.end;
+  }
+  return items;
+}
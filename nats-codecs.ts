@@ -0,0 +1,298 @@
+// NATS Payload Codecs
+// A registry of payload codecs selected by the Content-Type header: JSON, MessagePack, protobuf
+// messages from a .proto schema, and raw bytes. Senders encode with the codec they pick and label
+// the message with it; receivers decode by the label, so binary payloads need no JSON wrapper
+
+import { Codec, MsgHdrs, headers } from "nats";
+import { decode as decodeMsgpack, encode as encodeMsgpack } from "@msgpack/msgpack";
+import protobuf from "protobufjs";
+import { existsSync } from "fs";
+import { PayloadCodecError } from "./nats-errors.js";
+
+export const CONTENT_TYPE_HEADER = "Content-Type";
+
+export const JSON_CONTENT_TYPE = "application/json";
+export const MSGPACK_CONTENT_TYPE = "application/msgpack";
+export const PROTOBUF_CONTENT_TYPE = "application/protobuf";
+export const RAW_CONTENT_TYPE = "application/octet-stream";
+
+// Content-Type parameter naming the protobuf message, e.g. "application/protobuf; messageType=poc.Greeting"
+export const MESSAGE_TYPE_PARAM = "messageType";
+
+export const DEFAULT_PROTO_FILE = "./nats-payloads.proto";
+
+export const CODEC_FLAG = "--codec";
+export const PROTO_FLAG = "--proto";
+export const PROTO_TYPE_FLAG = "--proto-type";
+
+export type CodecName = "json" | "msgpack" | "protobuf" | "raw";
+export const CODEC_NAMES: CodecName[] = ["json", "msgpack", "protobuf", "raw"];
+
+export interface PayloadCodec extends Codec<unknown> {
+  name: CodecName;
+  contentType: string;         // Full header value, parameters included
+  structured: boolean;         // Carries any JSON-like value, so a handler can answer in the same codec
+  fromText(text: string): unknown;  // What a line typed on the command line stands for
+}
+
+export interface CodecArgs {
+  registry: CodecRegistry;
+  codec: PayloadCodec;         // What this script sends with
+  args: string[];              // The remaining arguments
+}
+
+const textEncoder = new TextEncoder();
+
+const LONG_FIELD_TYPES = ["int64", "uint64", "sint64", "fixed64", "sfixed64"];
+
+// JSON if it parses, the text itself otherwise
+function parseLenient(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// "application/protobuf; messageType=poc.Greeting" -> media type and parameters
+function parseContentType(value: string): { mediaType: string; params: Map<string, string> } {
+  const [mediaType, ...rest] = value.split(";").map(part => part.trim());
+  const params = new Map<string, string>();
+  for (const param of rest) {
+    const eq = param.indexOf("=");
+    if (eq > 0) {
+      params.set(param.slice(0, eq).trim(), param.slice(eq + 1).trim().replace(/^"(.*)"$/, "$1"));
+    }
+  }
+  return { mediaType: mediaType.toLowerCase(), params };
+}
+
+const jsonCodec: PayloadCodec = {
+  name: "json",
+  contentType: JSON_CONTENT_TYPE,
+  structured: true,
+  encode: value => textEncoder.encode(JSON.stringify(value)),
+  decode: data => JSON.parse(new TextDecoder().decode(data)),
+  fromText: parseLenient
+};
+
+const msgpackCodec: PayloadCodec = {
+  name: "msgpack",
+  contentType: MSGPACK_CONTENT_TYPE,
+  structured: true,
+  encode: value => encodeMsgpack(value),
+  decode: data => decodeMsgpack(data),
+  fromText: parseLenient
+};
+
+// Bytes go through untouched; strings are sent as UTF-8
+const rawCodec: PayloadCodec = {
+  name: "raw",
+  contentType: RAW_CONTENT_TYPE,
+  structured: false,
+  encode: value => {
+    if (value instanceof Uint8Array) {
+      return value;
+    }
+    if (typeof value === "string") {
+      return textEncoder.encode(value);
+    }
+    throw new PayloadCodecError(`raw payloads are bytes or text, not ${typeof value}`);
+  },
+  decode: data => data,
+  fromText: text => textEncoder.encode(text)
+};
+
+function protobufCodec(type: protobuf.Type): PayloadCodec {
+  return {
+    name: "protobuf",
+    contentType: `${PROTOBUF_CONTENT_TYPE}; ${MESSAGE_TYPE_PARAM}=${type.fullName.replace(/^\./, "")}`,
+    structured: false,
+    // Unknown fields are rejected rather than silently dropped. 64-bit integers may be given
+    // as decimal strings, the way decode returns them, so values past 2^53 survive the round trip
+    encode: value => {
+      if (typeof value !== "object" || value === null || value instanceof Uint8Array) {
+        throw new PayloadCodecError(`a ${type.name} is built from an object, not ${typeof value}`);
+      }
+      const fields = value as Record<string, unknown>;
+      const unknown = Object.keys(fields).filter(key => !type.fields[key]);
+      if (unknown.length > 0) {
+        throw new PayloadCodecError(`not a valid ${type.name}: no field ${unknown.join(", ")}`);
+      }
+      // fromObject coerces whatever it gets ("abc" to 0, "x" to NaN), so the types are checked first,
+      // with decimal strings in 64-bit fields standing in as integers since verify() takes only numbers
+      const checked = Object.fromEntries(Object.entries(fields).map(([key, v]) =>
+        [key, LONG_FIELD_TYPES.includes(type.fields[key].type) && typeof v === "string" && /^-?\d+$/.test(v) ? 0 : v]));
+      const problem = type.verify(checked);
+      if (problem) {
+        throw new PayloadCodecError(`not a valid ${type.name}: ${problem}`);
+      }
+      return type.encode(type.fromObject(fields)).finish();
+    },
+    // 64-bit integers as strings and bytes as base64, so the result prints and serializes as JSON
+    decode: data => type.toObject(type.decode(data), { longs: String, bytes: String, defaults: true }),
+    fromText: text => {
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new PayloadCodecError(`protobuf payloads are typed as a JSON object matching ${type.name}`);
+      }
+    }
+  };
+}
+
+// Media type -> codec. Protobuf codecs are built per message type from the loaded schemas
+export class CodecRegistry {
+  private codecs = new Map<string, PayloadCodec>();
+  private schema = new protobuf.Root();
+  private schemaFiles: string[] = [];
+
+  constructor() {
+    for (const codec of [jsonCodec, msgpackCodec, rawCodec]) {
+      this.register(codec);
+    }
+  }
+
+  register(codec: PayloadCodec) {
+    this.codecs.set(parseContentType(codec.contentType).mediaType, codec);
+  }
+
+  // Throws if the file is missing or does not parse
+  loadSchema(file: string) {
+    this.schema.loadSync(file, { keepCase: true });
+    this.schemaFiles.push(file);
+  }
+
+  // Sender side: the codec named on the command line
+  codec(name: CodecName, messageType?: string): PayloadCodec {
+    if (name === "protobuf") {
+      if (!messageType) {
+        throw new PayloadCodecError(`the protobuf codec needs a message type (${PROTO_TYPE_FLAG})`);
+      }
+      return protobufCodec(this.lookupType(messageType));
+    }
+    const codec = CODEC_NAMES.includes(name) ? [...this.codecs.values()].find(c => c.name === name) : undefined;
+    if (!codec) {
+      throw new PayloadCodecError(`unknown codec "${name}" (one of ${CODEC_NAMES.join(", ")})`);
+    }
+    return codec;
+  }
+
+  // Receiver side: the codec the message is labelled with. Unlabelled payloads are opaque bytes
+  forHeaders(h?: MsgHdrs): PayloadCodec {
+    const value = h?.get(CONTENT_TYPE_HEADER);
+    if (!value) {
+      return rawCodec;
+    }
+    const { mediaType, params } = parseContentType(value);
+    if (mediaType === PROTOBUF_CONTENT_TYPE) {
+      const messageType = params.get(MESSAGE_TYPE_PARAM);
+      if (!messageType) {
+        throw new PayloadCodecError(`${value} does not name a ${MESSAGE_TYPE_PARAM}`);
+      }
+      return protobufCodec(this.lookupType(messageType));
+    }
+    const codec = this.codecs.get(mediaType);
+    if (!codec) {
+      throw new PayloadCodecError(`unsupported ${CONTENT_TYPE_HEADER} ${value}`);
+    }
+    return codec;
+  }
+
+  // What a handler answers with: the request's codec when it can carry the reply, JSON otherwise
+  replyCodec(requestCodec: PayloadCodec): PayloadCodec {
+    return requestCodec.structured ? requestCodec : jsonCodec;
+  }
+
+  // For display: never throws, a payload that cannot be decoded is shown as bytes with the reason
+  describe(data: Uint8Array, h?: MsgHdrs): string {
+    try {
+      return describePayload(this.forHeaders(h).decode(data));
+    } catch (error) {
+      return `${describePayload(data)} (undecoded: ${error.message})`;
+    }
+  }
+
+  private lookupType(name: string): protobuf.Type {
+    try {
+      return this.schema.lookupType(name);
+    } catch {
+      const loaded = this.schemaFiles.length > 0 ? this.schemaFiles.join(", ") : "no schema loaded";
+      throw new PayloadCodecError(`unknown protobuf message type ${name} (${loaded})`);
+    }
+  }
+}
+
+// Adds the codec's Content-Type to existing headers or to fresh ones
+export function withContentType(codec: PayloadCodec, h: MsgHdrs = headers()): MsgHdrs {
+  h.set(CONTENT_TYPE_HEADER, codec.contentType);
+  return h;
+}
+
+// Text that is valid UTF-8 is shown as such, anything else as hex
+export function describePayload(value: unknown): string {
+  if (value instanceof Uint8Array) {
+    try {
+      return new TextDecoder("utf-8", { fatal: true }).decode(value);
+    } catch {
+      const hex = Buffer.from(value.subarray(0, 32)).toString("hex");
+      return `<${value.length} bytes: ${hex}${value.length > 32 ? "..." : ""}>`;
+    }
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  return JSON.stringify(value, (_key, v) => typeof v === "bigint" ? v.toString() : v);
+}
+
+// Strips --codec, --proto and --proto-type from the arguments. The bundled schema is loaded
+// when no --proto is given, so receivers can decode protobuf payloads out of the box
+export function parseCodecArgs(args: string[], defaultCodec: CodecName = "json"): CodecArgs {
+  const registry = new CodecRegistry();
+  const rest: string[] = [];
+  const protoFiles: string[] = [];
+  let name: CodecName = defaultCodec;
+  let messageType: string | undefined;
+
+  const value = (flag: string, i: number) => {
+    if (args[i] === undefined || args[i].startsWith("--")) {
+      throw new PayloadCodecError(`${flag} needs a value`);
+    }
+    return args[i];
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case CODEC_FLAG:
+        name = value(CODEC_FLAG, ++i) as CodecName;
+        break;
+      case PROTO_FLAG:
+        protoFiles.push(value(PROTO_FLAG, ++i));
+        break;
+      case PROTO_TYPE_FLAG:
+        messageType = value(PROTO_TYPE_FLAG, ++i);
+        break;
+      default:
+        rest.push(args[i]);
+    }
+  }
+
+  if (protoFiles.length === 0 && existsSync(DEFAULT_PROTO_FILE)) {
+    protoFiles.push(DEFAULT_PROTO_FILE);
+  }
+  for (const file of protoFiles) {
+    try {
+      registry.loadSchema(file);
+    } catch (error) {
+      throw new PayloadCodecError(`cannot load ${file}: ${error.message}`);
+    }
+  }
+
+  return { registry, codec: registry.codec(name, messageType), args: rest };
+}
+
+export const CODEC_USAGE = [
+  `  ${CODEC_FLAG}        Payload codec: ${CODEC_NAMES.join(", ")} (sets the ${CONTENT_TYPE_HEADER} header)`,
+  `  ${PROTO_FLAG}        .proto schema to load, repeatable (default ${DEFAULT_PROTO_FILE})`,
+  `  ${PROTO_TYPE_FLAG}   Protobuf message type to send, e.g. poc.Greeting`
+];
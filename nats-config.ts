@@ -0,0 +1,224 @@
+// NATS Server Config Parser
+// Minimal parser for the nats-server configuration format used by
+// nats-server.conf / nats-main-cluster.conf / nats-leaf-cluster.conf
+
+import { readFileSync } from "fs";
+
+export type NatsConfigValue = string | number | boolean | NatsConfigValue[] | NatsConfigMap;
+
+export interface NatsConfigMap {
+  [key: string]: NatsConfigValue;
+}
+
+export class NatsConfigParseError extends Error {
+  constructor(message: string, public file: string, public line: number) {
+    super(`${file}:${line}: ${message}`);
+    this.name = "NatsConfigParseError";
+  }
+}
+
+const SIZE_SUFFIXES: Record<string, number> = {
+  k: 1000, kb: 1024, m: 1000 ** 2, mb: 1024 ** 2, g: 1000 ** 3, gb: 1024 ** 3, t: 1000 ** 4, tb: 1024 ** 4
+};
+
+class Parser {
+  private pos = 0;
+
+  constructor(private text: string, private file: string) {}
+
+  parse(): NatsConfigMap {
+    const result = this.parseEntries(null);
+    this.skipSeparators();
+    if (this.pos < this.text.length) {
+      this.fail(`Unexpected '${this.text[this.pos]}'`);
+    }
+    return result;
+  }
+
+  private get line(): number {
+    return this.text.slice(0, this.pos).split("\n").length;
+  }
+
+  private fail(message: string): never {
+    throw new NatsConfigParseError(message, this.file, this.line);
+  }
+
+  private peek(): string {
+    return this.text[this.pos];
+  }
+
+  // Skips spaces and comments, but not newlines
+  private skipInlineSpace(): void {
+    while (this.pos < this.text.length) {
+      const ch = this.peek();
+      if (ch === " " || ch === "\t" || ch === "\r") {
+        this.pos++;
+      } else if (ch === "#" || (ch === "/" && this.text[this.pos + 1] === "/")) {
+        while (this.pos < this.text.length && this.peek() !== "\n") this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  // Skips whitespace, comments and entry separators (newline, comma, semicolon)
+  private skipSeparators(): void {
+    while (this.pos < this.text.length) {
+      this.skipInlineSpace();
+      const ch = this.peek();
+      if (ch === "\n" || ch === "," || ch === ";") {
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private parseEntries(terminator: string | null): NatsConfigMap {
+    const map: NatsConfigMap = {};
+
+    while (true) {
+      this.skipSeparators();
+      if (this.pos >= this.text.length) {
+        if (terminator) this.fail(`Missing '${terminator}'`);
+        return map;
+      }
+      if (terminator && this.peek() === terminator) {
+        this.pos++;
+        return map;
+      }
+
+      const key = this.parseKey();
+      this.skipInlineSpace();
+      if (this.peek() === ":" || this.peek() === "=") {
+        this.pos++;
+        this.skipInlineSpace();
+      }
+      map[key] = this.parseValue();
+    }
+  }
+
+  private parseKey(): string {
+    const ch = this.peek();
+    if (ch === '"' || ch === "'") {
+      return this.parseQuoted();
+    }
+    const start = this.pos;
+    while (this.pos < this.text.length && /[A-Za-z0-9_\-.$]/.test(this.peek())) this.pos++;
+    if (start === this.pos) {
+      this.fail(`Expected a key but found '${ch}'`);
+    }
+    return this.text.slice(start, this.pos);
+  }
+
+  private parseValue(): NatsConfigValue {
+    const ch = this.peek();
+    if (ch === "{") {
+      this.pos++;
+      return this.parseEntries("}");
+    }
+    if (ch === "[") {
+      this.pos++;
+      return this.parseArray();
+    }
+    if (ch === '"' || ch === "'") {
+      return this.parseQuoted();
+    }
+    return this.parseBare();
+  }
+
+  private parseArray(): NatsConfigValue[] {
+    const items: NatsConfigValue[] = [];
+    while (true) {
+      this.skipSeparators();
+      if (this.pos >= this.text.length) this.fail("Missing ']'");
+      if (this.peek() === "]") {
+        this.pos++;
+        return items;
+      }
+      items.push(this.parseValue());
+    }
+  }
+
+  private parseQuoted(): string {
+    const quote = this.text[this.pos++];
+    let value = "";
+    while (this.pos < this.text.length && this.peek() !== quote) {
+      if (this.peek() === "\\" && quote === '"') {
+        this.pos++;
+      }
+      value += this.text[this.pos++];
+    }
+    if (this.pos >= this.text.length) this.fail("Unterminated string");
+    this.pos++;
+    return value;
+  }
+
+  private parseBare(): NatsConfigValue {
+    const start = this.pos;
+    while (this.pos < this.text.length && !/[\n,;}\]#]/.test(this.peek())) this.pos++;
+    const raw = this.text.slice(start, this.pos).trim();
+    if (raw.length === 0) this.fail("Expected a value");
+
+    const lower = raw.toLowerCase();
+    if (["true", "yes", "on"].includes(lower)) return true;
+    if (["false", "no", "off"].includes(lower)) return false;
+    if (/^-?\d+(\.\d+)?$/.test(raw)) return Number(raw);
+
+    const size = raw.match(/^(\d+)\s*([A-Za-z]+)$/);
+    if (size && SIZE_SUFFIXES[size[2].toLowerCase()]) {
+      return Number(size[1]) * SIZE_SUFFIXES[size[2].toLowerCase()];
+    }
+    return raw;
+  }
+}
+
+export function parseNatsConfig(text: string, file: string = "<config>"): NatsConfigMap {
+  return new Parser(text, file).parse();
+}
+
+export function loadNatsConfig(file: string): NatsConfigMap {
+  return parseNatsConfig(readFileSync(file, "utf8"), file);
+}
+
+// --- Reading parsed values ---
+
+// A block, or undefined if the value is missing or not a block
+export function asMap(value: NatsConfigValue | undefined): NatsConfigMap | undefined {
+  return value && typeof value === "object" && !Array.isArray(value) ? value : undefined;
+}
+
+// Fields that take a single value or a list, e.g. `allow: "a.>"` and `allow: ["a.>", "b"]`
+export function toList(value: NatsConfigValue | undefined): string[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(v => String(v));
+}
+
+export function getAuthorization(config: NatsConfigMap): NatsConfigMap | undefined {
+  return asMap(config.authorization);
+}
+
+// Serializes a parsed config back to nats-server syntax (used for generated test configs).
+// Strings are always quoted, so comments and original formatting are not preserved
+export function stringifyNatsConfig(config: NatsConfigMap, indent: string = ""): string {
+  return Object.entries(config)
+    .map(([key, value]) => `${indent}${formatKey(key)}: ${formatValue(value, indent)}`)
+    .join("\n");
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z0-9_\-.$]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+function formatValue(value: NatsConfigValue, indent: string): string {
+  const inner = indent + "  ";
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return `[\n${value.map(item => inner + formatValue(item, inner)).join("\n")}\n${indent}]`;
+  }
+  if (typeof value === "object") {
+    if (Object.keys(value).length === 0) return "{}";
+    return `{\n${stringifyNatsConfig(value, inner)}\n${indent}}`;
+  }
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
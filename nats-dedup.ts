@@ -0,0 +1,70 @@
+// NATS Message Deduplication
+// Publishers stamp each broadcast with a stable message ID header; subscribers keep a bounded
+// window of the IDs they have handled and drop a second copy, whichever cluster it came through
+
+import { MsgHdrs, headers, nuid } from "nats";
+
+// The header JetStream dedupes on as well, so the relay stream keeps a single copy too
+export const MESSAGE_ID_HEADER = "Nats-Msg-Id";
+
+export const DEFAULT_DEDUP_ENTRIES = 10000;
+export const DEFAULT_DEDUP_TTL_MS = 2 * 60 * 1000;
+
+export interface DedupStats {
+  checked: number;       // Messages that carried an ID
+  duplicates: number;    // Of those, dropped as already seen
+  tracked: number;       // IDs currently in the window
+  evicted: number;       // Pushed out by the size bound before their TTL ran out
+}
+
+// Adds the ID to existing headers or to fresh ones; pass the broadcastId where there is one
+export function stampMessageId(id: string = nuid.next(), h: MsgHdrs = headers()): MsgHdrs {
+  h.set(MESSAGE_ID_HEADER, id);
+  return h;
+}
+
+export function messageIdOf(h?: MsgHdrs): string | undefined {
+  return h?.get(MESSAGE_ID_HEADER) || undefined;
+}
+
+// Remembers IDs for ttlMs, at most maxEntries of them: the oldest go first when it is full,
+// so a duplicate arriving later than either bound is delivered again
+export class DedupWindow {
+  // ID -> first seen; Map iteration order is insertion order, so the oldest entry is first
+  private seen = new Map<string, number>();
+  private checked = 0;
+  private duplicates = 0;
+  private evicted = 0;
+
+  constructor(private maxEntries: number = DEFAULT_DEDUP_ENTRIES, private ttlMs: number = DEFAULT_DEDUP_TTL_MS) {}
+
+  // Records the ID and returns false the first time, true for every repeat inside the window
+  isDuplicate(id: string, now: number = Date.now()): boolean {
+    this.expire(now);
+    this.checked++;
+    if (this.seen.has(id)) {
+      this.duplicates++;
+      return true;
+    }
+
+    this.seen.set(id, now);
+    if (this.seen.size > this.maxEntries) {
+      this.seen.delete(this.seen.keys().next().value!);
+      this.evicted++;
+    }
+    return false;
+  }
+
+  stats(): DedupStats {
+    return { checked: this.checked, duplicates: this.duplicates, tracked: this.seen.size, evicted: this.evicted };
+  }
+
+  private expire(now: number) {
+    for (const [id, firstSeen] of this.seen) {
+      if (now - firstSeen < this.ttlMs) {
+        break;
+      }
+      this.seen.delete(id);
+    }
+  }
+}
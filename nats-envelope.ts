@@ -0,0 +1,60 @@
+// NATS Message Envelope
+// Routing and trace metadata travels in headers instead of JSON body fields: who sent a message,
+// from which cluster, on which fallback hop and for which original subject. Payloads stay opaque,
+// so a plain-text or binary message carries the same facts as a JSON one
+
+import { MsgHdrs, headers } from "nats";
+
+export const ORIGIN_USER_HEADER = "X-Origin-User";
+export const ORIGIN_CLUSTER_HEADER = "X-Origin-Cluster";
+export const ORIGIN_TIME_HEADER = "X-Origin-Time";
+export const FALLBACK_HOP_HEADER = "X-Fallback-Hop";
+export const ORIGINAL_SUBJECT_HEADER = "X-Original-Subject";
+export const SCENARIO_HEADER = "X-Scenario";
+
+// On a request the sender; on a reply the responder
+export interface Envelope {
+  user?: string;             // Display name
+  cluster?: string;          // Cluster it was published on
+  timestamp?: string;        // ISO time it was sent
+  hop?: number;              // Fallback hop that sent it, 1 = the first choice
+  originalSubject?: string;  // The first hop's subject, which a later hop may have replaced
+  scenario?: string;
+}
+
+// Adds the envelope to existing headers or to fresh ones; the time defaults to now
+export function envelopeHeaders(envelope: Envelope, h: MsgHdrs = headers()): MsgHdrs {
+  const fields: [string, string | number | undefined][] = [
+    [ORIGIN_USER_HEADER, envelope.user],
+    [ORIGIN_CLUSTER_HEADER, envelope.cluster],
+    [ORIGIN_TIME_HEADER, envelope.timestamp ?? new Date().toISOString()],
+    [FALLBACK_HOP_HEADER, envelope.hop],
+    [ORIGINAL_SUBJECT_HEADER, envelope.originalSubject],
+    [SCENARIO_HEADER, envelope.scenario]
+  ];
+  for (const [name, value] of fields) {
+    if (value !== undefined) {
+      h.set(name, String(value));
+    }
+  }
+  return h;
+}
+
+// Whatever of the envelope is there; a message from a client that sets no headers reads as {}
+export function readEnvelope(h?: MsgHdrs): Envelope {
+  const get = (name: string) => h?.get(name) || undefined;
+  const hop = Number(get(FALLBACK_HOP_HEADER));
+  return {
+    user: get(ORIGIN_USER_HEADER),
+    cluster: get(ORIGIN_CLUSTER_HEADER),
+    timestamp: get(ORIGIN_TIME_HEADER),
+    hop: Number.isInteger(hop) && hop > 0 ? hop : undefined,
+    originalSubject: get(ORIGINAL_SUBJECT_HEADER),
+    scenario: get(SCENARIO_HEADER)
+  };
+}
+
+// "Foo@leaf", with "unknown" for what the sender left out
+export function describeOrigin(envelope: Envelope): string {
+  return `${envelope.user ?? "unknown"}@${envelope.cluster ?? "unknown"}`;
+}
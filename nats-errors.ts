@@ -0,0 +1,179 @@
+// NATS Error Types
+// Typed errors for permission failures the server reports asynchronously,
+// and a classifier that maps any NATS failure onto a discriminated union
+
+import { ErrorCode, NatsError, ServiceError } from "nats";
+
+export type PermissionOperation = "publish" | "subscribe";
+
+export class PermissionDeniedError extends Error {
+  constructor(
+    public op: PermissionOperation,
+    public subject: string,
+    public cluster: string,
+    public user: string,
+    public serverMessage?: string
+  ) {
+    super(`Permission denied: ${user} cannot ${op} "${subject}" on ${cluster} cluster`);
+    this.name = "PermissionDeniedError";
+  }
+}
+
+// Why a NATS operation failed, derived from NatsError.code rather than message text
+export type NatsFailure =
+  | { kind: "no-responders"; message: string }
+  | { kind: "timeout"; message: string }
+  | { kind: "permission-denied"; operation: PermissionOperation; subject?: string; message: string }
+  | { kind: "authentication"; code: string; message: string }
+  | { kind: "connection"; code: string; message: string }
+  | { kind: "service-error"; code: number; message: string }
+  | { kind: "unknown"; code?: string; message: string };
+
+export type NatsFailureKind = NatsFailure["kind"];
+
+const AUTHENTICATION_CODES: string[] = [
+  ErrorCode.AuthorizationViolation,
+  ErrorCode.AuthenticationExpired,
+  ErrorCode.AuthenticationTimeout,
+  ErrorCode.AccountExpired,
+  ErrorCode.BadAuthentication,
+  ErrorCode.BadCreds
+];
+
+const CONNECTION_CODES: string[] = [
+  ErrorCode.ConnectionRefused,
+  ErrorCode.ConnectionClosed,
+  ErrorCode.ConnectionDraining,
+  ErrorCode.ConnectionTimeout,
+  ErrorCode.Disconnect,
+  ErrorCode.Tls
+];
+
+export function classifyNatsError(error: unknown): NatsFailure {
+  if (error instanceof PermissionDeniedError) {
+    return { kind: "permission-denied", operation: error.op, subject: error.subject, message: error.message };
+  }
+
+  // The responder was reached and answered with an error reply (see nats-service.ts)
+  if (error instanceof ServiceError) {
+    return { kind: "service-error", code: error.code, message: error.message };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (!(error instanceof NatsError)) {
+    return { kind: "unknown", message };
+  }
+
+  const code = error.code;
+  if (code === ErrorCode.NoResponders) {
+    return { kind: "no-responders", message };
+  }
+  if (code === ErrorCode.Timeout) {
+    return { kind: "timeout", message };
+  }
+  if (code === ErrorCode.PermissionsViolation) {
+    // A request to a subject the user may not publish to is rejected with the
+    // server's violation; the context says whether it was the publish or the reply inbox
+    const ctx = error.permissionContext;
+    const operation: PermissionOperation = ctx?.operation === "subscription" ? "subscribe" : "publish";
+    return { kind: "permission-denied", operation, subject: ctx?.subject, message };
+  }
+  if (AUTHENTICATION_CODES.includes(code)) {
+    return { kind: "authentication", code, message };
+  }
+  if (CONNECTION_CODES.includes(code)) {
+    return { kind: "connection", code, message };
+  }
+  return { kind: "unknown", code, message };
+}
+
+// Subject-level failures are worth retrying on another subject or cluster;
+// authentication and connection failures will fail the same way again, and a handler that
+// answered with an error has already been reached
+export function canFallback(failure: NatsFailure): boolean {
+  switch (failure.kind) {
+    case "no-responders":
+    case "timeout":
+    case "permission-denied":
+    case "unknown":
+      return true;
+    case "authentication":
+    case "connection":
+    case "service-error":
+      return false;
+  }
+}
+
+// When a fallback chain step hands over to the next step
+export type FallbackCondition = "permission-denied" | "no-responders" | "timeout" | "always";
+
+export function shouldAdvance(advanceOn: FallbackCondition[] | undefined, failure: NatsFailure): boolean {
+  if (!advanceOn) {
+    return canFallback(failure);
+  }
+  if (advanceOn.includes("always")) {
+    return true;
+  }
+  return (advanceOn as string[]).includes(failure.kind);
+}
+
+export class FallbackExhaustedError extends Error {
+  constructor(
+    public attempts: { subject: string; cluster: string; failure: NatsFailure }[],
+    public stoppedEarly: boolean
+  ) {
+    const last = attempts[attempts.length - 1];
+    super(stoppedEarly
+      ? `Fallback chain stopped at ${last.subject} on ${last.cluster}: ${last.failure.message}`
+      : `All ${attempts.length} fallback hops failed (last: ${last.subject} on ${last.cluster}: ${last.failure.message})`);
+    this.name = "FallbackExhaustedError";
+  }
+}
+
+// A payload that cannot be encoded or decoded with the codec selected for it (see nats-codecs.ts)
+export class PayloadCodecError extends Error {
+  constructor(message: string) {
+    super(`Payload codec: ${message}`);
+    this.name = "PayloadCodecError";
+  }
+}
+
+// Short label for result tables
+export function failureLabel(failure: NatsFailure): string {
+  switch (failure.kind) {
+    case "no-responders":
+      return "NoResponders";
+    case "timeout":
+      return "Timeout";
+    case "permission-denied":
+      return "PermissionDenied";
+    case "authentication":
+      return "AuthFailed";
+    case "connection":
+      return "ConnectionFailed";
+    case "service-error":
+      return `ServiceError ${failure.code}`;
+    case "unknown":
+      return "Error";
+  }
+}
+
+// One-line human explanation, with the icon the scripts already use for it
+export function describeFailure(failure: NatsFailure, subject: string, timeoutMs?: number): string {
+  switch (failure.kind) {
+    case "no-responders":
+      return `🔄 Reason: No active subscribers on ${subject}`;
+    case "timeout":
+      return `🔄 Reason: Request timeout${timeoutMs !== undefined ? ` - no response within ${timeoutMs}ms` : ""}`;
+    case "permission-denied":
+      return `🚫 Reason: Permission denied - user lacks ${failure.operation} access to ${failure.subject ?? subject}`;
+    case "authentication":
+      return `🔐 Reason: Authentication failed (${failure.code})`;
+    case "connection":
+      return `🔌 Reason: Connection problem (${failure.code})`;
+    case "service-error":
+      return `⚠️  Reason: Handler on ${subject} replied with error ${failure.code}: ${failure.message}`;
+    case "unknown":
+      return `🔄 Reason: ${failure.message}`;
+  }
+}
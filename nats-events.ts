@@ -0,0 +1,138 @@
+// NATS Script Events
+// Structured NDJSON output for the demo scripts: with --json every script writes one
+// event per line to stdout (human output moves to stderr), so orchestrators can
+// consume what happened instead of scraping emoji text
+
+import { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import { NatsFailureKind } from "./nats-errors.js";
+
+export const EVENT_SCHEMA_VERSION = 1;
+export const JSON_FLAG = "--json";
+export const DEFAULT_READY_TIMEOUT = 15000;
+
+export type ScriptEvent =
+  | { event: "connected"; user: string; cluster: string; url: string }
+  | { event: "connect_failed"; user: string; cluster: string; failure: NatsFailureKind; message: string }
+  | { event: "fallback"; user: string; cluster: string; subject?: string; reason: string }
+  | { event: "subscribed"; user: string; cluster: string; subject: string; queue?: string; durable?: string }
+  | { event: "ready"; user: string; cluster: string; subjects: string[] }
+  | { event: "subscribe_denied"; user: string; cluster: string; subject: string }
+  | { event: "message_received"; user: string; cluster: string; subject: string; pattern: string; broadcastId?: string; streamSeq?: number; redelivered?: boolean }
+  | { event: "duplicate_dropped"; user: string; cluster: string; subject: string; messageId?: string }
+  | { event: "reply_sent"; user: string; cluster: string; subject: string; replyTo: string }
+  | { event: "published"; user: string; cluster: string; subject: string; broadcastId?: string }
+  | { event: "publish_failed"; user: string; cluster: string; subject: string; failure: NatsFailureKind; message: string }
+  | { event: "request_succeeded"; user: string; cluster: string; subject: string; latencyMs: number; hop?: number }
+  | { event: "request_failed"; user: string; cluster: string; subject: string; failure: NatsFailureKind; message: string; hop?: number }
+  | { event: "reply_received"; user: string; cluster: string; subject: string; responder: string; respondedFrom?: string; latencyMs: number; error?: string }
+  | { event: "gather_completed"; user: string; cluster: string; subject: string; responders: number; elapsedMs: number; stoppedBy: "window" | "responders" }
+  | { event: "cluster_switched"; user: string; cluster: string; from: string; reason: string }
+  | { event: "failover_failed"; user: string; cluster: string; from: string; failure: NatsFailureKind; message: string }
+  | { event: "closed"; user: string; cluster?: string; messages: number };
+
+export type ScriptEventName = ScriptEvent["event"];
+
+// Every line carries the schema version, a timestamp and the emitting script
+export type EventRecord = ScriptEvent & { v: number; ts: string; script: string };
+
+let jsonMode = false;
+let scriptName = "unknown";
+
+// Call first thing in main(); returns the arguments with --json removed
+export function initEventOutput(script: string, args: string[]): string[] {
+  scriptName = script;
+  if (!args.includes(JSON_FLAG)) {
+    return args;
+  }
+
+  jsonMode = true;
+  // Keep stdout clean for NDJSON; the human-readable output is still there on stderr
+  console.log = console.error;
+  console.info = console.error;
+  return args.filter(arg => arg !== JSON_FLAG);
+}
+
+export function isJsonMode(): boolean {
+  return jsonMode;
+}
+
+export function emit(event: ScriptEvent): void {
+  if (!jsonMode) {
+    return;
+  }
+  const record: EventRecord = { v: EVENT_SCHEMA_VERSION, ts: new Date().toISOString(), script: scriptName, ...event };
+  process.stdout.write(JSON.stringify(record) + "\n");
+}
+
+export function parseEventLine(line: string): EventRecord | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) {
+    return null;
+  }
+  try {
+    const record = JSON.parse(trimmed);
+    return typeof record.event === "string" && record.v === EVENT_SCHEMA_VERSION ? record : null;
+  } catch {
+    return null;
+  }
+}
+
+// Reads a child process's stdout line by line (chunks may split or join lines);
+// returns a function that stops listening
+export function onEvents(stream: Readable, handler: (record: EventRecord) => void): () => void {
+  const decoder = new StringDecoder("utf8");
+  let buffer = "";
+
+  const onData = (chunk: Buffer | string) => {
+    buffer += typeof chunk === "string" ? chunk : decoder.write(chunk);
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const record = parseEventLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      if (record) {
+        handler(record);
+      }
+    }
+  };
+
+  stream.on("data", onData);
+  return () => stream.off("data", onData);
+}
+
+// Resolves with the first matching event; rejects on timeout or if the stream ends first
+export function waitForEvent(
+  stream: Readable,
+  predicate: (record: EventRecord) => boolean,
+  timeoutMs: number,
+  description: string
+): Promise<EventRecord> {
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      stop();
+      stream.off("end", onEnd);
+    };
+    const onEnd = () => {
+      finish();
+      reject(new Error(`Stream ended before ${description}`));
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error(`Timed out after ${timeoutMs}ms waiting for ${description}`));
+    }, timeoutMs);
+    const stop = onEvents(stream, record => {
+      if (predicate(record)) {
+        finish();
+        resolve(record);
+      }
+    });
+    stream.once("end", onEnd);
+  });
+}
+
+// Subscribers emit "ready" once flush() has confirmed their subscriptions with the server.
+// Attach this right after spawn(): an event emitted before anyone listens is lost
+export function waitForReady(stream: Readable, user: string, timeoutMs: number = DEFAULT_READY_TIMEOUT): Promise<EventRecord> {
+  return waitForEvent(stream, record => record.event === "ready", timeoutMs, `${user} subscriber to be ready`);
+}
@@ -0,0 +1,97 @@
+// NATS JetStream Relay
+// The leaf cluster's broadcast relay as a stream: broadcast.>, announce.>, alert.> and the
+// replicated rpc.> are stored on the leaf, and each user reads them through a durable consumer
+// of their own, so messages sent while a subscriber was away are replayed from its last ack
+
+import {
+  AckPolicy, ConsumerConfig, ConsumerInfo, DeliverPolicy, DiscardPolicy, JetStreamManager, NatsError,
+  RetentionPolicy, StorageType, StreamConfig, StreamInfo, nanos
+} from "nats";
+import { UserConfig } from "./nats-topology.js";
+
+export const RELAY_STREAM = "BROADCAST_RELAY";
+
+// rpc.> is only what crosses the leaf link (or is published on the leaf); the rest of the
+// broadcast patterns (broad.rpc.>, _INBOX.>) are request traffic and stay on core subscriptions
+export const RELAY_SUBJECTS = ["broadcast.>", "announce.>", "alert.>", "rpc.>"];
+
+export const RELAY_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+export const RELAY_ACK_WAIT_MS = 30000;
+
+// JetStream API error codes
+const STREAM_NOT_FOUND = 10059;
+const CONSUMER_NOT_FOUND = 10014;
+
+function relayStreamConfig(): Partial<StreamConfig> {
+  return {
+    name: RELAY_STREAM,
+    subjects: RELAY_SUBJECTS,
+    storage: StorageType.File,
+    retention: RetentionPolicy.Limits,
+    discard: DiscardPolicy.Old,
+    max_age: nanos(RELAY_MAX_AGE_MS),
+    // Requests on rpc.> carry a reply subject: without no_ack the stream would answer
+    // them with a PubAck before any handler could
+    no_ack: true
+  };
+}
+
+function apiErrorCode(error: unknown): number | undefined {
+  return error instanceof NatsError ? error.api_error?.err_code : undefined;
+}
+
+function sameSubjects(a: string[] = [], b: string[] = []): boolean {
+  return a.length === b.length && a.every(s => b.includes(s));
+}
+
+// Creates the stream on first use and brings an older one's subjects up to date.
+// Throws on clusters without JetStream (the NATS error says so)
+export async function ensureRelayStream(jsm: JetStreamManager): Promise<StreamInfo> {
+  const config = relayStreamConfig();
+  try {
+    const info = await jsm.streams.info(RELAY_STREAM);
+    if (sameSubjects(info.config.subjects, config.subjects)) {
+      return info;
+    }
+    return await jsm.streams.update(RELAY_STREAM, config);
+  } catch (error) {
+    if (apiErrorCode(error) !== STREAM_NOT_FOUND) {
+      throw error;
+    }
+    return await jsm.streams.add(config);
+  }
+}
+
+export function durableName(user: UserConfig): string {
+  return `relay-${user.id}`;
+}
+
+// One durable per user, filtered to the relay subjects the user may read. A new durable starts
+// with what arrives from now on; an existing one keeps its ack floor and resumes from there
+export async function ensureDurableConsumer(
+  jsm: JetStreamManager,
+  user: UserConfig,
+  filterSubjects: string[]
+): Promise<ConsumerInfo> {
+  const name = durableName(user);
+  try {
+    const info = await jsm.consumers.info(RELAY_STREAM, name);
+    if (sameSubjects(info.config.filter_subjects, filterSubjects)) {
+      return info;
+    }
+    return await jsm.consumers.update(RELAY_STREAM, name, { filter_subjects: filterSubjects });
+  } catch (error) {
+    if (apiErrorCode(error) !== CONSUMER_NOT_FOUND) {
+      throw error;
+    }
+    const config: Partial<ConsumerConfig> = {
+      durable_name: name,
+      description: `Broadcast relay for ${user.name}`,
+      ack_policy: AckPolicy.Explicit,
+      deliver_policy: DeliverPolicy.New,
+      ack_wait: nanos(RELAY_ACK_WAIT_MS),
+      filter_subjects: filterSubjects
+    };
+    return await jsm.consumers.add(RELAY_STREAM, config);
+  }
+}
@@ -0,0 +1,235 @@
+// NATS Leaf Leakage Audit
+// Combines the main and leaf authorization blocks with the leafnode link between them to
+// find, per user, main-cluster subjects reachable through the leaf that main itself denies
+
+import { NatsConfigMap, NatsConfigValue, asMap, getAuthorization, toList } from "./nats-config.js";
+import { UserConfig } from "./nats-topology.js";
+import { PermissionDecision, PermissionSet, UserPermissions, explainPermission, resolveUserPermissions, toUserPermissions } from "./nats-permissions.js";
+import { acceptsClients, acceptsLeafnodes, listConfiguredUsers } from "./nats-permission-lint.js";
+
+export type Operation = "publish" | "subscribe";
+
+export interface AuditTarget {
+  name: string;
+  configFile: string;
+  config: NatsConfigMap;
+}
+
+// One rule on the leafnode link that a message has to pass
+export interface LinkFilter {
+  source: string;        // Where the rule lives, e.g. "main remote deny_imports"
+  set: PermissionSet;
+}
+
+export interface LeafLink {
+  solicitedBy: string;   // Cluster whose leafnodes.remotes dials the other one
+  url: string;
+  toMain: LinkFilter[];  // leaf -> main: what a leaf publisher can deliver on main
+  toLeaf: LinkFilter[];  // main -> leaf: what main traffic a leaf subscriber sees
+}
+
+export interface SubjectReach {
+  subject: string;
+  op: Operation;
+  main: PermissionDecision;  // The user's own permissions, connected to main
+  viaLeaf: boolean;          // Connected to the leaf, through the link
+  blockedBy?: string;        // Why the leaf path is closed
+  escalation: boolean;       // Reachable via the leaf, denied on main
+}
+
+export interface UserLeakage {
+  identity: string;
+  name?: string;             // Topology display name, if the identity is in the topology
+  mainMapped: boolean;
+  leafMapped: boolean;
+  reach: SubjectReach[];
+}
+
+export interface LeakageAudit {
+  main: string;
+  leaf: string;
+  link: LeafLink | null;     // null = the clusters are not linked, nothing can leak
+  subjects: string[];
+  users: UserLeakage[];
+}
+
+const OPERATIONS: Operation[] = ["publish", "subscribe"];
+
+// verify_and_map turns away identities without a user entry instead of applying defaults
+export function mapsIdentities(config: NatsConfigMap): boolean {
+  return asMap(config.tls)?.verify_and_map === true;
+}
+
+function leafListenPort(config: NatsConfigMap): number | undefined {
+  const leafnodes = asMap(config.leafnodes);
+  if (!leafnodes) return undefined;
+  if (typeof leafnodes.port === "number") return leafnodes.port;
+  const listen = leafnodes.listen;
+  if (typeof listen === "number") return listen;
+  if (typeof listen === "string") return Number(listen.slice(listen.lastIndexOf(":") + 1));
+  return undefined;
+}
+
+function remoteUrls(remote: NatsConfigMap): string[] {
+  return [...toList(remote.url), ...toList(remote.urls)];
+}
+
+// The remote in `from` whose URL points at the leafnode listener of `to`
+function findRemote(from: NatsConfigMap, to: NatsConfigMap): { remote: NatsConfigMap; url: string } | undefined {
+  const port = leafListenPort(to);
+  const remotes = asMap(from.leafnodes)?.remotes;
+  if (port === undefined || !Array.isArray(remotes)) return undefined;
+
+  for (const remote of remotes as NatsConfigMap[]) {
+    const url = remoteUrls(remote).find(u => Number(new URL(u).port) === port);
+    if (url) return { remote, url };
+  }
+  return undefined;
+}
+
+// Permissions the accepting side binds to the incoming leaf connection. Like a client's:
+// publish is what the remote may send in, subscribe is what it is sent.
+function acceptedLinkPermissions(
+  config: NatsConfigMap,
+  identity: string | undefined
+): { permissions: UserPermissions; source: string } | undefined {
+  const leafnodes = asMap(config.leafnodes);
+  const authorization = asMap(leafnodes?.authorization);
+  if (authorization?.permissions !== undefined) {
+    return { permissions: toUserPermissions(authorization.permissions), source: "leafnodes.authorization" };
+  }
+
+  // Users the link can authenticate as: leafnodes.authorization's own, or with
+  // leafnodes.tls.verify_and_map the main authorization's users open to LEAFNODE
+  let candidates: { user: string; permissions?: UserPermissions; source: string }[];
+  if (authorization) {
+    candidates = ((authorization.users || []) as NatsConfigMap[]).map(u => ({
+      user: String(u.user),
+      permissions: u.permissions !== undefined ? toUserPermissions(u.permissions) : undefined,
+      source: `leafnodes.authorization user ${u.user}`
+    }));
+  } else if (asMap(leafnodes?.tls)?.verify_and_map === true) {
+    candidates = listConfiguredUsers(config).filter(acceptsLeafnodes).map(u => ({
+      user: u.identity, permissions: u.permissions, source: `user ${u.identity}`
+    }));
+  } else {
+    return undefined;
+  }
+
+  const match = candidates.find(c => c.user === identity) ?? (candidates.length === 1 ? candidates[0] : undefined);
+  return match?.permissions ? { permissions: match.permissions, source: match.source } : undefined;
+}
+
+function denyFilter(source: string, value: NatsConfigValue | undefined): LinkFilter[] {
+  const deny = toList(value);
+  return deny.length > 0 ? [{ source, set: { allow: [], deny } }] : [];
+}
+
+function setFilter(source: string, set: PermissionSet): LinkFilter[] {
+  return set.allow.length > 0 || set.deny.length > 0 ? [{ source, set }] : [];
+}
+
+// linkIdentities tell which user a remote authenticates as, by its certificate file
+export function findLeafLink(main: AuditTarget, leaf: AuditTarget, linkIdentities: UserConfig[] = []): LeafLink | null {
+  const fromMain = findRemote(main.config, leaf.config);
+  const fromLeaf = fromMain ? undefined : findRemote(leaf.config, main.config);
+  const found = fromMain ?? fromLeaf;
+  if (!found) return null;
+
+  const [soliciting, accepting] = fromMain ? [main, leaf] : [leaf, main];
+  // deny_imports: never take these from the other side; deny_exports: never send them
+  const importsOf = denyFilter(`${soliciting.name} remote deny_imports`, found.remote.deny_imports);
+  const exportsOf = denyFilter(`${soliciting.name} remote deny_exports`, found.remote.deny_exports);
+
+  const certFile = asMap(found.remote.tls)?.cert_file;
+  const identity = linkIdentities.find(i => i.certFile === certFile)?.email;
+  const accepted = acceptedLinkPermissions(accepting.config, identity);
+  const sentIn = accepted ? setFilter(`${accepting.name} ${accepted.source} publish`, accepted.permissions.publish) : [];
+  const sentOut = accepted ? setFilter(`${accepting.name} ${accepted.source} subscribe`, accepted.permissions.subscribe) : [];
+
+  return fromMain
+    ? { solicitedBy: main.name, url: found.url, toMain: [...importsOf, ...sentOut], toLeaf: [...exportsOf, ...sentIn] }
+    : { solicitedBy: leaf.name, url: found.url, toMain: [...exportsOf, ...sentIn], toLeaf: [...importsOf, ...sentOut] };
+}
+
+// Subject trees main's policy talks about, the link's own rules, and ">" for everything else.
+// A pattern counts as reachable only if all of it is; narrower patterns get rows of their own.
+export function auditSubjects(main: AuditTarget, link: LeafLink | null): string[] {
+  const subjects = new Set<string>();
+  const authorization = getAuthorization(main.config);
+  const permissions = [
+    toUserPermissions(authorization?.default_permissions),
+    ...listConfiguredUsers(main.config).map(u => u.permissions)
+  ];
+  for (const perms of permissions) {
+    for (const op of OPERATIONS) {
+      perms[op].allow.forEach(s => subjects.add(s));
+      perms[op].deny.forEach(s => subjects.add(s));
+    }
+  }
+  for (const filter of [...(link?.toMain ?? []), ...(link?.toLeaf ?? [])]) {
+    filter.set.allow.forEach(s => subjects.add(s));
+    filter.set.deny.forEach(s => subjects.add(s));
+  }
+  subjects.delete(">");
+  return [...[...subjects].sort(), ">"];
+}
+
+// Every identity that can connect as a client to either side; link-only users are the link
+function auditIdentities(main: AuditTarget, leaf: AuditTarget, topologyUsers: UserConfig[]): string[] {
+  const identities = new Set(topologyUsers.map(u => u.email));
+  for (const target of [main, leaf]) {
+    listConfiguredUsers(target.config).filter(acceptsClients).forEach(u => identities.add(u.identity));
+  }
+  return [...identities];
+}
+
+export function auditLeafLeakage(
+  main: AuditTarget,
+  leaf: AuditTarget,
+  topologyUsers: UserConfig[] = [],
+  linkIdentities: UserConfig[] = []
+): LeakageAudit {
+  const link = findLeafLink(main, leaf, linkIdentities);
+  const subjects = auditSubjects(main, link);
+
+  const users = auditIdentities(main, leaf, topologyUsers).map(identity => {
+    const onMain = resolveUserPermissions(main.config, identity);
+    const onLeaf = resolveUserPermissions(leaf.config, identity);
+    const mainMapped = onMain.matchedUser || !mapsIdentities(main.config);
+    const leafMapped = onLeaf.matchedUser || !mapsIdentities(leaf.config);
+
+    const reach: SubjectReach[] = [];
+    for (const op of OPERATIONS) {
+      // A publish on the leaf travels to main; a subscription on the leaf is fed from main
+      const filters = op === "publish" ? link?.toMain : link?.toLeaf;
+      for (const subject of subjects) {
+        const decision = explainPermission(onMain.permissions[op], subject);
+        const mainDecision = mainMapped ? decision : { ...decision, allowed: false };
+
+        let blockedBy: string | undefined;
+        if (!link) {
+          blockedBy = "no leafnode link";
+        } else if (!leafMapped) {
+          blockedBy = `${leaf.name} rejects the identity`;
+        } else if (!explainPermission(onLeaf.permissions[op], subject).allowed) {
+          blockedBy = `${leaf.name} permissions`;
+        } else {
+          blockedBy = filters?.find(f => !explainPermission(f.set, subject).allowed)?.source;
+        }
+
+        const viaLeaf = blockedBy === undefined;
+        reach.push({ subject, op, main: mainDecision, viaLeaf, blockedBy, escalation: viaLeaf && !mainDecision.allowed });
+      }
+    }
+
+    const name = topologyUsers.find(u => u.email === identity)?.name;
+    return { identity, name, mainMapped, leafMapped, reach };
+  });
+
+  return { main: main.name, leaf: leaf.name, link, subjects, users };
+}
+
+export function listEscalations(audit: LeakageAudit): Array<SubjectReach & { identity: string }> {
+  return audit.users.flatMap(user => user.reach.filter(r => r.escalation).map(r => ({ identity: user.identity, ...r })));
+}
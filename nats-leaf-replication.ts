@@ -0,0 +1,125 @@
+// NATS Leaf Replication Probe
+// Checks on the live servers which subject trees cross the leafnode link: a tagged probe is
+// published on one side and watched for on the other, in both directions, and compared with
+// what the link's permissions in the configs say should be replicated
+
+import { connect, nuid, NatsConnection, Subscription } from "nats";
+import { UserConfig, ClusterInfo, buildConnectionOptions, listLinkIdentities } from "./nats-topology.js";
+import { loadNatsConfig } from "./nats-config.js";
+import { AuditTarget, LeafLink, LinkFilter, findLeafLink } from "./nats-leaf-audit.js";
+import { UserPermissions, canPublish, canSubscribe, explainPermission, resolveUserPermissions } from "./nats-permissions.js";
+
+export type ReplicationDirection = "main->leaf" | "leaf->main";
+
+export interface ReplicationProbe {
+  direction: ReplicationDirection;
+  pattern: string;     // Subject tree from the prober's own main permissions
+  subject: string;     // Concrete subject published inside it
+  expected: boolean;   // The link's permissions pass it
+  delivered: boolean;
+}
+
+export interface ReplicationReport {
+  link: LeafLink | null;
+  probes: ReplicationProbe[];
+}
+
+export const DEFAULT_REPLICATION_WAIT = 3000;
+
+const REPUBLISH_INTERVAL_MS = 250;
+const NEGATIVE_SETTLE_MS = 1000;
+
+function toTarget(cluster: ClusterInfo): AuditTarget {
+  return { name: cluster.name, configFile: cluster.configFile, config: loadNatsConfig(cluster.configFile) };
+}
+
+// A literal subject inside a pattern: `*` becomes "probe", `>` becomes "replication.<token>"
+export function probeSubject(pattern: string, token: string): string {
+  return pattern.split(".").map(t => t === "*" ? "probe" : t === ">" ? `replication.${token}` : t).join(".");
+}
+
+function passes(filters: LinkFilter[], subject: string): boolean {
+  return filters.every(f => explainPermission(f.set, subject).allowed);
+}
+
+// Probes the prober may publish on the source side and subscribe to on the destination side;
+// anything else would fail on the prober's own permissions rather than on the link
+function planProbes(
+  direction: ReplicationDirection,
+  patterns: string[],
+  source: UserPermissions,
+  destination: UserPermissions,
+  filters: LinkFilter[]
+): ReplicationProbe[] {
+  const token = nuid.next();
+  return patterns
+    .map(pattern => ({ pattern, subject: probeSubject(pattern, token) }))
+    .filter(({ subject }) => canPublish(source, subject) && canSubscribe(destination, subject))
+    .map(({ pattern, subject }) => ({ direction, pattern, subject, expected: passes(filters, subject), delivered: false }));
+}
+
+async function runProbes(from: NatsConnection, to: NatsConnection, probes: ReplicationProbe[], waitMs: number): Promise<void> {
+  const subs: Subscription[] = probes.map(probe => to.subscribe(probe.subject, {
+    callback: (err) => {
+      if (!err) probe.delivered = true;
+    }
+  }));
+  await to.flush();
+
+  try {
+    // Interest crosses the link asynchronously, so replicated probes are republished until they land
+    const deadline = Date.now() + waitMs;
+    const replicated = probes.filter(p => p.expected);
+    while (replicated.some(p => !p.delivered) && Date.now() < deadline) {
+      for (const probe of replicated.filter(p => !p.delivered)) {
+        from.publish(probe.subject, "replication probe");
+      }
+      await from.flush();
+      await new Promise(resolve => setTimeout(resolve, REPUBLISH_INTERVAL_MS));
+    }
+
+    // Same subscriptions, same propagation: once the replicated ones arrived, blocked ones had their chance.
+    // Without a replicated probe to tell, wait the whole window
+    for (const probe of probes.filter(p => !p.expected)) {
+      from.publish(probe.subject, "replication probe");
+    }
+    await from.flush();
+    await new Promise(resolve => setTimeout(resolve, replicated.length > 0 ? NEGATIVE_SETTLE_MS : waitMs));
+  } finally {
+    subs.forEach(sub => sub.unsubscribe());
+  }
+}
+
+export async function probeLeafReplication(
+  user: UserConfig,
+  main: ClusterInfo,
+  leaf: ClusterInfo,
+  waitMs: number = DEFAULT_REPLICATION_WAIT
+): Promise<ReplicationReport> {
+  const mainTarget = toTarget(main);
+  const leafTarget = toTarget(leaf);
+  const link = findLeafLink(mainTarget, leafTarget, listLinkIdentities());
+  if (!link) {
+    return { link, probes: [] };
+  }
+
+  const onMain = resolveUserPermissions(mainTarget.config, user.email).permissions;
+  const onLeaf = resolveUserPermissions(leafTarget.config, user.email).permissions;
+  const patterns = [...new Set([...onMain.publish.allow, ...onMain.subscribe.allow])];
+
+  const toLeaf = planProbes("main->leaf", patterns, onMain, onLeaf, link.toLeaf);
+  const toMain = planProbes("leaf->main", patterns, onLeaf, onMain, link.toMain);
+
+  const ncMain = await connect(buildConnectionOptions(user, main, { name: `replication_probe_${main.name}` }));
+  let ncLeaf: NatsConnection | undefined;
+  try {
+    ncLeaf = await connect(buildConnectionOptions(user, leaf, { name: `replication_probe_${leaf.name}` }));
+    await runProbes(ncMain, ncLeaf, toLeaf, waitMs);
+    await runProbes(ncLeaf, ncMain, toMain, waitMs);
+  } finally {
+    await ncLeaf?.close();
+    await ncMain.close();
+  }
+
+  return { link, probes: [...toLeaf, ...toMain] };
+}
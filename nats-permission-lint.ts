@@ -0,0 +1,151 @@
+// NATS Permission Lint
+// Static checks over a cluster's authorization block: risky defaults, users that
+// can't take part in request-reply, and allow rules that a deny makes unusable
+
+import { NatsConfigMap, getAuthorization, toList } from "./nats-config.js";
+import { UserConfig } from "./nats-topology.js";
+import { PermissionSet, UserPermissions, canPublish, canSubscribe, subjectCovers, toUserPermissions } from "./nats-permissions.js";
+
+export type HazardSeverity = "high" | "medium" | "low";
+
+export type HazardCode =
+  | "default-allow-all"        // default_permissions (or its absence) lets anything through
+  | "default-fallthrough"      // a user entry without permissions inherits the defaults
+  | "duplicate-user"           // the same identity is defined twice
+  | "unmapped-identity"        // a topology identity has no entry, so verify_and_map rejects it
+  | "missing-inbox-subscribe"  // requests from this user never see their replies
+  | "missing-inbox-publish"    // the user can receive requests but not answer them
+  | "shadowed-allow";          // an allow rule is entirely covered by a deny
+
+export interface PermissionHazard {
+  cluster: string;
+  severity: HazardSeverity;
+  code: HazardCode;
+  user?: string;
+  message: string;
+}
+
+export interface ConfiguredUser {
+  identity: string;
+  permissions: UserPermissions;
+  explicit: boolean;  // false = no permissions block, so default_permissions apply
+  allowResponses: boolean;  // allow_responses lets the user reply to requests it received
+  connectionTypes: string[];  // allowed_connection_types; empty = any (STANDARD, LEAFNODE, ...)
+}
+
+export const HAZARD_SEVERITIES: HazardSeverity[] = ["high", "medium", "low"];
+
+// A concrete reply subject as nats.js generates them (_INBOX.<nuid>.<token>)
+const INBOX_SUBJECT = "_INBOX.lint.reply";
+
+export function getDefaultPermissions(config: NatsConfigMap): UserPermissions {
+  return toUserPermissions(getAuthorization(config)?.default_permissions);
+}
+
+export function listConfiguredUsers(config: NatsConfigMap): ConfiguredUser[] {
+  const authorization = getAuthorization(config);
+  const users = (authorization?.users || []) as NatsConfigMap[];
+  const defaults = getDefaultPermissions(config);
+
+  return users.map(entry => {
+    const permissions = entry.permissions as NatsConfigMap | undefined;
+    return {
+      identity: String(entry.user),
+      permissions: permissions !== undefined ? toUserPermissions(permissions) : defaults,
+      explicit: permissions !== undefined,
+      allowResponses: !!permissions?.allow_responses,
+      connectionTypes: toList(entry.allowed_connection_types).map(type => type.toUpperCase())
+    };
+  });
+}
+
+// Leaf link identities are typically restricted to LEAFNODE and never seen as clients
+export function acceptsClients(user: ConfiguredUser): boolean {
+  return user.connectionTypes.length === 0 || user.connectionTypes.includes("STANDARD");
+}
+
+export function acceptsLeafnodes(user: ConfiguredUser): boolean {
+  return user.connectionTypes.length === 0 || user.connectionTypes.includes("LEAFNODE");
+}
+
+export function allowsEverything(set: PermissionSet): boolean {
+  return (set.allow.length === 0 || set.allow.includes(">")) && set.deny.length === 0;
+}
+
+export function lintAuthorization(config: NatsConfigMap, cluster: string, topologyUsers: UserConfig[] = []): PermissionHazard[] {
+  const authorization = getAuthorization(config);
+  if (!authorization) {
+    return [];
+  }
+
+  const hazards: PermissionHazard[] = [];
+  const add = (severity: HazardSeverity, code: HazardCode, message: string, user?: string) =>
+    hazards.push({ cluster, severity, code, user, message });
+
+  const defaults = getDefaultPermissions(config);
+  const openOps = [
+    allowsEverything(defaults.publish) ? "publish" : null,
+    allowsEverything(defaults.subscribe) ? "subscribe" : null
+  ].filter(Boolean);
+  if (openOps.length > 0) {
+    const source = authorization.default_permissions === undefined ? "No default_permissions block" : "default_permissions";
+    add("high", "default-allow-all",
+      `${source} allows ${openOps.join(" and ")} on ">": every user without permissions of its own gets full access`);
+  }
+
+  const users = listConfiguredUsers(config);
+  const seen = new Set<string>();
+  for (const user of users) {
+    if (seen.has(user.identity)) {
+      add("medium", "duplicate-user", `${user.identity} is defined more than once`, user.identity);
+    }
+    seen.add(user.identity);
+
+    if (!user.explicit) {
+      add(openOps.length > 0 ? "high" : "medium", "default-fallthrough",
+        `${user.identity} has no permissions block and inherits default_permissions`, user.identity);
+    }
+
+    lintUserPermissions(user, add);
+  }
+
+  for (const topologyUser of topologyUsers) {
+    if (!seen.has(topologyUser.email)) {
+      add("low", "unmapped-identity",
+        `${topologyUser.name} (${topologyUser.email}) has no user entry, so verify_and_map rejects it on this cluster`,
+        topologyUser.email);
+    }
+  }
+
+  return hazards.sort((a, b) => HAZARD_SEVERITIES.indexOf(a.severity) - HAZARD_SEVERITIES.indexOf(b.severity));
+}
+
+function lintUserPermissions(
+  user: ConfiguredUser,
+  add: (severity: HazardSeverity, code: HazardCode, message: string, user?: string) => void
+): void {
+  const { publish, subscribe } = user.permissions;
+  const publishesAnything = !publish.deny.includes(">");
+
+  // nc.request() waits on a subscription under _INBOX.>
+  if (publishesAnything && !canSubscribe(user.permissions, INBOX_SUBJECT)) {
+    add("medium", "missing-inbox-subscribe",
+      `${user.identity} cannot subscribe to _INBOX.>, so its requests never receive replies`, user.identity);
+  }
+
+  // Anyone subscribed to a service subject may be asked to reply on the requester's inbox
+  const servesRequests = subscribe.allow.length === 0 || subscribe.allow.some(p => !subjectCovers("_INBOX.>", p));
+  if (servesRequests && !subscribe.deny.includes(">") && !user.allowResponses && !canPublish(user.permissions, INBOX_SUBJECT)) {
+    add("low", "missing-inbox-publish",
+      `${user.identity} can receive requests but cannot publish to _INBOX.> to answer them`, user.identity);
+  }
+
+  for (const [op, set] of [["publish", publish], ["subscribe", subscribe]] as const) {
+    for (const allow of set.allow) {
+      const deny = set.deny.find(d => subjectCovers(d, allow));
+      if (deny) {
+        add("low", "shadowed-allow", `${user.identity} ${op} allow "${allow}" is entirely denied by "${deny}"`, user.identity);
+      }
+    }
+  }
+}
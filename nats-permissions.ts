@@ -0,0 +1,207 @@
+// NATS Effective Permissions
+// Works out a connected identity's real publish/subscribe allow/deny lists from the
+// cluster's authorization block, using /connz to confirm which user the server mapped
+
+import { NatsConnection } from "nats";
+import { UserConfig, ClusterInfo } from "./nats-topology.js";
+import { NatsConfigMap, NatsConfigValue, asMap, getAuthorization, loadNatsConfig, toList } from "./nats-config.js";
+
+export interface PermissionSet {
+  allow: string[];  // Empty means "everything not denied"
+  deny: string[];
+}
+
+export interface UserPermissions {
+  publish: PermissionSet;
+  subscribe: PermissionSet;
+}
+
+export interface EffectivePermissions extends UserPermissions {
+  identity: string;                      // Authorized user as seen by the server
+  cluster: string;
+  source: "connz" | "topology";          // Where the identity came from
+  matchedUser: boolean;                  // false = fell through to default_permissions
+}
+
+export interface RequiredSubjects {
+  publish?: string[];
+  subscribe?: string[];
+}
+
+export interface CoverageResult {
+  covered: boolean;
+  missingPublish: string[];
+  missingSubscribe: string[];
+}
+
+const ALLOW_ALL: PermissionSet = { allow: [], deny: [] };
+
+// --- Subject wildcard semantics ---
+
+// True if a literal subject is matched by a pattern (`*` = one token, `>` = one or more)
+export function subjectMatches(pattern: string, subject: string): boolean {
+  const p = pattern.split(".");
+  const s = subject.split(".");
+
+  for (let i = 0; i < p.length; i++) {
+    if (p[i] === ">") {
+      return s.length > i;
+    }
+    if (i >= s.length) return false;
+    if (p[i] !== "*" && p[i] !== s[i]) return false;
+  }
+  return p.length === s.length;
+}
+
+// True if every subject matched by `inner` is also matched by `outer`
+export function subjectCovers(outer: string, inner: string): boolean {
+  const o = outer.split(".");
+  const n = inner.split(".");
+
+  for (let i = 0; i < o.length; i++) {
+    if (o[i] === ">") {
+      return n.length > i;
+    }
+    if (i >= n.length) return false;
+    if (n[i] === ">") return false;
+    if (o[i] === "*") continue;
+    if (n[i] === "*" || o[i] !== n[i]) return false;
+  }
+  return o.length === n.length;
+}
+
+// True if at least one literal subject is matched by both patterns
+export function subjectsOverlap(a: string, b: string): boolean {
+  const x = a.split(".");
+  const y = b.split(".");
+
+  for (let i = 0; i < Math.max(x.length, y.length); i++) {
+    if (x[i] === ">" || y[i] === ">") {
+      return i < x.length && i < y.length;
+    }
+    if (i >= x.length || i >= y.length) return false;
+    if (x[i] !== "*" && y[i] !== "*" && x[i] !== y[i]) return false;
+  }
+  return true;
+}
+
+export interface PermissionDecision {
+  allowed: boolean;
+  allowedBy?: string;         // Allow pattern covering the subject; ">" for an empty (allow-all) list
+  deniedBy?: string;          // Deny pattern covering the subject
+  partialDenies: string[];    // Denies overlapping a wildcard subject: accepted, but those messages are filtered
+}
+
+// Same decision as isPermitted(), with the patterns that made it
+export function explainPermission(set: PermissionSet, subject: string): PermissionDecision {
+  const allowedBy = set.allow.length === 0 ? ">" : set.allow.find(p => subjectCovers(p, subject));
+  const deniedBy = set.deny.find(p => subjectCovers(p, subject));
+  const partialDenies = deniedBy ? [] : set.deny.filter(p => subjectsOverlap(p, subject));
+  return { allowed: allowedBy !== undefined && !deniedBy, allowedBy, deniedBy, partialDenies };
+}
+
+function isPermitted(set: PermissionSet, subject: string): boolean {
+  const allowed = set.allow.length === 0 || set.allow.some(p => subjectCovers(p, subject));
+  const denied = set.deny.some(p => subjectCovers(p, subject));
+  return allowed && !denied;
+}
+
+export function canPublish(perms: UserPermissions, subject: string): boolean {
+  return isPermitted(perms.publish, subject);
+}
+
+export function canSubscribe(perms: UserPermissions, subject: string): boolean {
+  return isPermitted(perms.subscribe, subject);
+}
+
+export function checkCoverage(perms: UserPermissions, required: RequiredSubjects): CoverageResult {
+  const missingPublish = (required.publish || []).filter(s => !canPublish(perms, s));
+  const missingSubscribe = (required.subscribe || []).filter(s => !canSubscribe(perms, s));
+  return {
+    covered: missingPublish.length === 0 && missingSubscribe.length === 0,
+    missingPublish,
+    missingSubscribe
+  };
+}
+
+// --- Authorization block resolution ---
+
+function toPermissionSet(value: NatsConfigValue | undefined): PermissionSet {
+  if (value === undefined) return { ...ALLOW_ALL };
+  // Shorthand form: `publish: ["a.>", "b"]` is an allow list
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { allow: toList(value), deny: [] };
+  }
+  return { allow: toList(value.allow), deny: toList(value.deny) };
+}
+
+export function toUserPermissions(value: NatsConfigValue | undefined): UserPermissions {
+  const map = asMap(value) ?? {};
+  return {
+    publish: toPermissionSet(map.publish),
+    subscribe: toPermissionSet(map.subscribe)
+  };
+}
+
+export function resolveUserPermissions(
+  config: NatsConfigMap,
+  identity: string
+): { permissions: UserPermissions; matchedUser: boolean } {
+  const authorization = getAuthorization(config) ?? {};
+  const users = (authorization.users || []) as NatsConfigMap[];
+  const entry = users.find(u => u.user === identity);
+
+  if (entry && entry.permissions !== undefined) {
+    return { permissions: toUserPermissions(entry.permissions), matchedUser: true };
+  }
+  return { permissions: toUserPermissions(authorization.default_permissions), matchedUser: !!entry };
+}
+
+// --- Live probe ---
+
+export class PermissionProbe {
+  constructor(
+    private nc: NatsConnection,
+    private user: UserConfig,
+    private cluster: ClusterInfo
+  ) {}
+
+  // Asks the monitoring endpoint which user the server mapped this connection to.
+  // Returns null when monitoring is unreachable or doesn't know the connection.
+  async fetchAuthorizedUser(): Promise<string | null> {
+    const cid = this.nc.info?.client_id;
+    if (cid === undefined) return null;
+
+    try {
+      const response = await fetch(`${this.cluster.monitoring}/connz?auth=1&subs=1&cid=${cid}`, {
+        signal: AbortSignal.timeout(2000)
+      });
+      if (!response.ok) return null;
+
+      const connz = await response.json();
+      const conn = (connz.connections || []).find((c: any) => c.cid === cid);
+      return conn?.authorized_user || null;
+    } catch {
+      return null;
+    }
+  }
+
+  async resolve(): Promise<EffectivePermissions> {
+    const authorizedUser = await this.fetchAuthorizedUser();
+    const identity = authorizedUser || this.user.email;
+    const { permissions, matchedUser } = resolveUserPermissions(loadNatsConfig(this.cluster.configFile), identity);
+
+    return {
+      ...permissions,
+      identity,
+      cluster: this.cluster.name,
+      source: authorizedUser ? "connz" : "topology",
+      matchedUser
+    };
+  }
+}
+
+export function describePermissionSet(set: PermissionSet): string {
+  const allow = set.allow.length > 0 ? set.allow.join(", ") : ">";
+  return set.deny.length > 0 ? `${allow} (deny: ${set.deny.join(", ")})` : allow;
+}
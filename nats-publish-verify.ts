@@ -0,0 +1,143 @@
+// NATS Publish Verification
+// Gives a definitive allow/deny verdict for a publish: a tagged probe is published,
+// the async "Permissions Violation for Publish" error is caught if the server sends one,
+// and delivery is confirmed through an observer connection when one is available
+
+import { connect, Events, headers, nuid, MsgHdrs, NatsConnection, Payload, QueuedIterator, Status, Subscription } from "nats";
+import { UserConfig, ClusterInfo, listUsers, buildConnectionOptions } from "./nats-topology.js";
+import { resolveUserPermissions, checkCoverage } from "./nats-permissions.js";
+import { loadNatsConfig } from "./nats-config.js";
+import { PermissionContext } from "./nats-subscribe.js";
+
+export const PROBE_HEADER = "X-Probe-Id";
+
+// allowed     - no violation, and the observer saw the probe (or there is no observer)
+// denied      - the server rejected the publish with a permissions violation
+// unconfirmed - no violation, but the observer never saw the probe
+export type PublishVerdict = "allowed" | "denied" | "unconfirmed";
+
+export interface PublishVerification {
+  subject: string;
+  user: string;
+  cluster: string;
+  verdict: PublishVerdict;
+  delivered: boolean;
+  probeId: string;
+  latencyMs: number;
+  serverMessage?: string;
+}
+
+export interface Observer {
+  nc: NatsConnection;
+  user: UserConfig;
+}
+
+// Connects as the first identity that may subscribe to every subject being verified
+export async function connectObserver(cluster: ClusterInfo, subjects: string[]): Promise<Observer | null> {
+  const config = loadNatsConfig(cluster.configFile);
+
+  for (const user of listUsers()) {
+    const { permissions, matchedUser } = resolveUserPermissions(config, user.email);
+    if (!matchedUser || !checkCoverage(permissions, { subscribe: subjects }).covered) {
+      continue;
+    }
+    try {
+      const nc = await connect(buildConnectionOptions(user, cluster, {
+        name: `${user.name}_publish_observer_${cluster.name}`
+      }));
+      return { nc, user };
+    } catch {
+      // Try the next identity
+    }
+  }
+  return null;
+}
+
+export async function verifyPublish(
+  nc: NatsConnection,
+  subject: string,
+  context: PermissionContext,
+  options: { observer?: NatsConnection; timeout?: number; payload?: Payload; headers?: MsgHdrs } = {}
+): Promise<PublishVerification> {
+  const timeout = options.timeout ?? 1000;
+  const probeId = nuid.next();
+  const startTime = Date.now();
+  let serverMessage: string | undefined;
+
+  // Register the echo subscription before publishing so the probe can't be missed
+  let echoSub: Subscription | null = null;
+  let echoTimer: ReturnType<typeof setTimeout> | undefined;
+  let echo: Promise<boolean> = Promise.resolve(false);
+  if (options.observer) {
+    const sub = options.observer.subscribe(subject);
+    echoSub = sub;
+    echoTimer = setTimeout(() => sub.unsubscribe(), timeout);
+    echo = (async () => {
+      for await (const msg of sub) {
+        if (msg.headers?.get(PROBE_HEADER) === probeId) {
+          clearTimeout(echoTimer);
+          sub.unsubscribe();
+          return true;
+        }
+      }
+      return false;
+    })();
+    await options.observer.flush();
+  }
+
+  const statusIterator = nc.status() as QueuedIterator<Status>;
+  (async () => {
+    for await (const status of statusIterator) {
+      const ctx = status.permissionContext;
+      if (status.type === Events.Error && ctx?.operation === "publish" && ctx.subject === subject) {
+        serverMessage = `Permissions Violation for Publish to "${subject}"`;
+      }
+    }
+  })();
+
+  // The probe tag rides along with whatever headers the caller's message carries
+  const h = options.headers ?? headers();
+  h.set(PROBE_HEADER, probeId);
+  try {
+    nc.publish(subject, options.payload ?? `publish-probe ${probeId}`, { headers: h });
+    // The server reports a publish violation before answering the flush PING
+    await nc.flush();
+    await new Promise(resolve => setImmediate(resolve));
+  } finally {
+    statusIterator.stop();
+  }
+
+  const result: PublishVerification = {
+    subject,
+    user: context.user,
+    cluster: context.cluster,
+    verdict: "allowed",
+    delivered: false,
+    probeId,
+    latencyMs: 0,
+    serverMessage
+  };
+
+  if (serverMessage) {
+    result.verdict = "denied";
+    clearTimeout(echoTimer);
+    echoSub?.unsubscribe();
+  } else if (options.observer) {
+    result.delivered = await echo;
+    result.verdict = result.delivered ? "allowed" : "unconfirmed";
+  }
+
+  result.latencyMs = Date.now() - startTime;
+  return result;
+}
+
+export function verdictIcon(verdict: PublishVerdict): string {
+  switch (verdict) {
+    case "allowed":
+      return "✅";
+    case "denied":
+      return "🚫";
+    case "unconfirmed":
+      return "❔";
+  }
+}
@@ -0,0 +1,67 @@
+// NATS Route Cache
+// Remembers which subjects a connection was denied on, so a fallback chain can
+// skip straight to the route that works instead of re-paying the denied hop
+
+import { Events, NatsConnection } from "nats";
+import { NatsFailure } from "./nats-errors.js";
+import { subjectMatches } from "./nats-permissions.js";
+
+export const DEFAULT_ROUTE_CACHE_TTL = 60000;
+
+export interface CachedDenial {
+  pattern: string;
+  failure: NatsFailure;
+  expiresAt: number;
+}
+
+export class RouteCache {
+  private denials = new Map<string, CachedDenial>();
+
+  constructor(private ttlMs: number = DEFAULT_ROUTE_CACHE_TTL) {}
+
+  // Only permission denials are remembered: the server's answer won't change until
+  // the connection's permissions do, whereas timeouts and missing responders are transient
+  recordFailure(pattern: string, failure: NatsFailure): void {
+    if (failure.kind !== "permission-denied" || this.ttlMs <= 0) {
+      return;
+    }
+    this.denials.set(pattern, { pattern, failure, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  lookup(subject: string): CachedDenial | undefined {
+    const now = Date.now();
+    for (const [pattern, denial] of this.denials) {
+      if (denial.expiresAt <= now) {
+        this.denials.delete(pattern);
+        continue;
+      }
+      if (subjectMatches(pattern, subject)) {
+        return denial;
+      }
+    }
+    return undefined;
+  }
+
+  entries(): CachedDenial[] {
+    const now = Date.now();
+    return [...this.denials.values()].filter(d => d.expiresAt > now);
+  }
+
+  clear(): void {
+    this.denials.clear();
+  }
+
+  // Permissions are evaluated per connection, so anything learned before a
+  // reconnect (possibly to a server with a reloaded config) is stale
+  static forConnection(nc: NatsConnection, ttlMs?: number): RouteCache {
+    const cache = new RouteCache(ttlMs);
+    (async () => {
+      for await (const status of nc.status()) {
+        if (status.type === Events.Reconnect) {
+          cache.clear();
+        }
+      }
+    })();
+    return cache;
+  }
+}
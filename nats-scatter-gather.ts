@@ -0,0 +1,83 @@
+// NATS Scatter-Gather
+// One request, every reply: collects answers on a broadcast RPC subject until a window
+// closes or enough responders have answered, with per-responder latency and cluster
+
+import { MsgHdrs, NatsConnection, Payload, RequestStrategy, ServiceError } from "nats";
+import { decodeReply } from "./nats-service.js";
+import { readEnvelope } from "./nats-envelope.js";
+import { CodecRegistry } from "./nats-codecs.js";
+
+export const DEFAULT_GATHER_WINDOW = 2000;
+
+export interface GatherOptions {
+  windowMs?: number;         // Stop collecting after this long
+  maxResponders?: number;    // Stop early once this many have answered
+  headers?: MsgHdrs;         // Sent with the request, e.g. the sender's envelope
+  payloads?: CodecRegistry;  // Decode replies by their Content-Type instead of as JSON
+}
+
+export interface GatheredReply {
+  responder: string;         // User from the reply's envelope
+  respondedFrom?: string;    // Cluster from the reply's envelope
+  latencyMs: number;         // Since the request was sent
+  data?: unknown;            // Decoded by the reply's codec
+  error?: ServiceError;      // The responder answered with an error reply
+}
+
+export interface GatherResult {
+  subject: string;
+  cluster: string;           // Cluster the request was sent on
+  replies: GatheredReply[];
+  elapsedMs: number;
+  stoppedBy: "window" | "responders";
+}
+
+// Throws only if nothing answered and the request itself failed (no responders,
+// permission denied); an empty window is a result with no replies
+export async function scatterGather(
+  nc: NatsConnection,
+  subject: string,
+  payload: Payload,
+  cluster: string,
+  opts: GatherOptions = {}
+): Promise<GatherResult> {
+  const windowMs = opts.windowMs ?? DEFAULT_GATHER_WINDOW;
+  const replies: GatheredReply[] = [];
+  const start = Date.now();
+
+  const iterator = await nc.requestMany(subject, payload, opts.maxResponders
+    ? { strategy: RequestStrategy.Count, maxMessages: opts.maxResponders, maxWait: windowMs, headers: opts.headers }
+    : { strategy: RequestStrategy.Timer, maxWait: windowMs, headers: opts.headers });
+
+  try {
+    for await (const msg of iterator) {
+      const latencyMs = Date.now() - start;
+      // Error replies carry the envelope too, so a failing responder is still identified
+      const origin = readEnvelope(msg.headers);
+      const responder = origin.user ?? "unknown";
+      try {
+        const data = decodeReply(msg, opts.payloads?.forHeaders(msg.headers));
+        replies.push({ responder, respondedFrom: origin.cluster, latencyMs, data });
+      } catch (error) {
+        replies.push({
+          responder,
+          respondedFrom: origin.cluster,
+          latencyMs,
+          error: error instanceof ServiceError ? error : new ServiceError(500, `Unreadable reply: ${error.message}`)
+        });
+      }
+    }
+  } catch (error) {
+    if (replies.length === 0) {
+      throw error;
+    }
+  }
+
+  return {
+    subject,
+    cluster,
+    replies,
+    elapsedMs: Date.now() - start,
+    stoppedBy: opts.maxResponders !== undefined && replies.length >= opts.maxResponders ? "responders" : "window"
+  };
+}
@@ -0,0 +1,477 @@
+// NATS Server Harness
+// Runs the topology's clusters as child nats-server processes for the test suites:
+// each .conf is copied with free ports and per-run certificates, /healthz is awaited,
+// server logs are kept for the test report and everything is torn down by PID afterwards
+
+import { spawn, ChildProcess } from "child_process";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { createServer, AddressInfo, Server } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createInterface } from "readline";
+import { ClusterInfo, Topology, UserConfig, DEFAULT_TOPOLOGY_FILE, loadTopology, useTopology } from "./nats-topology.js";
+import { NatsConfigMap, NatsConfigValue, asMap, loadNatsConfig, stringifyNatsConfig } from "./nats-config.js";
+import { CertificateAuthority, createIdentity, writeCertificate } from "./nats-ca.js";
+
+export const EMBEDDED_FLAG = "--embedded";
+export const DEFAULT_STARTUP_TIMEOUT = 15000;
+
+const LOG_HISTORY = 1000;
+const STOP_GRACE_MS = 5000;
+const POLL_INTERVAL_MS = 200;
+
+// Listener settings that get a free port; "listen" values may be "host:port" or a bare port
+const PORT_FIELDS: string[][] = [
+  ["listen"], ["port"], ["http"], ["http_port"],
+  ["leafnodes", "listen"], ["leafnodes", "port"],
+  ["cluster", "listen"], ["cluster", "port"],
+  ["gateway", "listen"], ["gateway", "port"]
+];
+
+// Output goes to the harness instead of files next to the repo
+const DROPPED_FIELDS = ["log_file", "pid_file", "ports_file_dir"];
+
+export interface HarnessOptions {
+  freePorts?: boolean;       // Default true; false keeps the ports from the .conf files
+  certificates?: "ephemeral" | "repo";  // Default "ephemeral": a fresh CA and identities per run
+  startupTimeout?: number;   // Per server, covering /healthz and leaf links
+  echoLogs?: boolean;        // Stream server log lines to stderr as they arrive
+  serverBin?: string;        // Defaults to $NATS_SERVER_BIN, then nats-server on PATH
+}
+
+export interface EmbeddedServer {
+  cluster: ClusterInfo;      // As written to the generated topology
+  sourceConfig: string;      // The .conf file the generated one was derived from
+  process: ChildProcess;
+  logs: string[];            // Most recent LOG_HISTORY lines
+  remotes: number;           // Leaf remotes that must be up before the server is usable
+  exited: boolean;
+  startError?: Error;
+}
+
+// How servers are spawned, kept for restartServer()
+interface LaunchSettings {
+  serverBin: string;
+  startupTimeout: number;
+  echoLogs: boolean;
+}
+
+export class ClusterHarness {
+  private stopped = false;
+  private readonly killOnExit = () => this.killAll("SIGKILL");
+
+  private constructor(
+    readonly workDir: string,
+    readonly topologyFile: string,
+    readonly servers: EmbeddedServer[],
+    private previousTopology: string | undefined,
+    private launch: LaunchSettings,
+    readonly ca?: CertificateAuthority  // Set for ephemeral certificates, to mint more identities
+  ) {
+    // Never leave servers behind, even if the test calls process.exit() without stop()
+    process.once("exit", this.killOnExit);
+  }
+
+  static async start(options: HarnessOptions = {}): Promise<ClusterHarness> {
+    const serverBin = options.serverBin ?? process.env.NATS_SERVER_BIN ?? "nats-server";
+    const timeout = options.startupTimeout ?? DEFAULT_STARTUP_TIMEOUT;
+    const topology = loadTopology();
+    const configs = topology.clusters.map(cluster => loadNatsConfig(cluster.configFile));
+
+    const ephemeral = (options.certificates ?? "ephemeral") === "ephemeral";
+    if (!ephemeral) {
+      for (const config of configs) {
+        checkTlsFiles(config);
+      }
+    }
+
+    const originalPorts = configs.flatMap(config => listenPorts(config).map(({ port }) => port));
+    const newPorts = options.freePorts === false ? originalPorts : await findFreePorts(originalPorts.length);
+    const portMap = new Map(originalPorts.map((port, i) => [port, newPorts[i]]));
+
+    const workDir = mkdtempSync(join(tmpdir(), "nats-harness-"));
+    let users: UserConfig[] = topology.users;
+    let linkIdentities: UserConfig[] | undefined = topology.linkIdentities;
+    let ca: CertificateAuthority | undefined;
+    let fileMap = new Map<string, string>();
+    if (ephemeral) {
+      ca = CertificateAuthority.create();
+      try {
+        ({ users, linkIdentities, fileMap } = mintCertificates(ca, join(workDir, "certs"), topology, configs));
+      } catch (error) {
+        rmSync(workDir, { recursive: true, force: true });
+        throw error;
+      }
+    }
+
+    const clusters = topology.clusters.map((cluster, i) => {
+      const configFile = join(workDir, `${cluster.name}.conf`);
+      const storeDir = join(workDir, `${cluster.name}-jetstream`);
+      writeFileSync(configFile, stringifyNatsConfig(rewriteConfig(configs[i], portMap, fileMap, storeDir)) + "\n");
+      return {
+        ...cluster,
+        url: remapUrl(cluster.url, portMap),
+        monitoring: remapUrl(cluster.monitoring, portMap),
+        configFile
+      };
+    });
+
+    const topologyFile = join(workDir, "nats-topology.json");
+    const generated: Topology = { ...topology, users, linkIdentities, clusters };
+    writeFileSync(topologyFile, JSON.stringify(generated, null, 2) + "\n");
+
+    const launch: LaunchSettings = { serverBin, startupTimeout: timeout, echoLogs: options.echoLogs ?? false };
+    const servers = clusters.map((cluster, i) =>
+      spawnServer(serverBin, cluster, topology.clusters[i].configFile, leafRemoteCount(configs[i]), launch.echoLogs));
+    const harness = new ClusterHarness(workDir, topologyFile, servers, process.env.NATS_TOPOLOGY, launch, ca);
+
+    try {
+      // Servers boot concurrently; a leaf remote just retries until its peer is listening
+      for (const server of servers) {
+        await waitForHealthy(server, timeout);
+      }
+      for (const server of servers) {
+        await waitForLeafLinks(server, timeout);
+      }
+    } catch (error) {
+      await harness.stop();
+      throw error;
+    }
+
+    useTopology(topologyFile);
+    return harness;
+  }
+
+  findServer(clusterName: string): EmbeddedServer | undefined {
+    return this.servers.find(server => server.cluster.name === clusterName);
+  }
+
+  // An outage for failover tests: the cluster's server is stopped by PID, everything else keeps running
+  async stopServer(clusterName: string): Promise<void> {
+    const server = this.requireServer(clusterName);
+    if (!server.exited && server.process.pid !== undefined) {
+      server.process.kill("SIGTERM");
+      const forceKill = setTimeout(() => server.process.kill("SIGKILL"), STOP_GRACE_MS);
+      await waitForExit(server);
+      clearTimeout(forceKill);
+    }
+  }
+
+  // Same config, ports and store as before; resolves once it is healthy and the leaf links are back
+  async restartServer(clusterName: string): Promise<void> {
+    const server = this.requireServer(clusterName);
+    if (!server.exited) {
+      throw new Error(`${clusterName} server is still running`);
+    }
+    const restarted = spawnServer(this.launch.serverBin, server.cluster, server.sourceConfig, server.remotes, this.launch.echoLogs);
+    this.servers[this.servers.indexOf(server)] = restarted;
+
+    await waitForHealthy(restarted, this.launch.startupTimeout);
+    for (const peer of this.servers) {
+      await waitForLeafLinks(peer, this.launch.startupTimeout);
+    }
+  }
+
+  logTail(lines: number = 20): string[] {
+    return this.servers.flatMap(server => server.logs.slice(-lines).map(line => `[${server.cluster.name}] ${line}`));
+  }
+
+  printLogTail(lines: number = 20): void {
+    console.log(`\n📜 Server logs (last ${lines} lines per cluster):`);
+    for (const line of this.logTail(lines)) {
+      console.log(`   ${line}`);
+    }
+  }
+
+  describe(): string[] {
+    return this.servers.map(server =>
+      `${server.cluster.name}: ${server.cluster.url} (monitoring ${server.cluster.monitoring}, pid ${server.process.pid})`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+    this.stopped = true;
+
+    this.killAll("SIGTERM");
+    const forceKill = setTimeout(() => this.killAll("SIGKILL"), STOP_GRACE_MS);
+    await Promise.all(this.servers.map(server => waitForExit(server)));
+    clearTimeout(forceKill);
+
+    process.off("exit", this.killOnExit);
+    rmSync(this.workDir, { recursive: true, force: true });
+    useTopology(this.previousTopology ?? DEFAULT_TOPOLOGY_FILE);
+  }
+
+  private requireServer(clusterName: string): EmbeddedServer {
+    const server = this.findServer(clusterName);
+    if (!server) {
+      throw new Error(`No embedded server for cluster ${clusterName}`);
+    }
+    return server;
+  }
+
+  // Only the PIDs this harness spawned are signalled
+  private killAll(signal: NodeJS.Signals): void {
+    for (const server of this.servers) {
+      if (!server.exited && server.process.pid !== undefined) {
+        server.process.kill(signal);
+      }
+    }
+  }
+}
+
+function spawnServer(serverBin: string, cluster: ClusterInfo, sourceConfig: string, remotes: number, echoLogs: boolean): EmbeddedServer {
+  // cwd stays at the repo so the relative ./certs paths in the configs still resolve
+  const child = spawn(serverBin, ["-c", cluster.configFile], { stdio: ["ignore", "pipe", "pipe"] });
+  const server: EmbeddedServer = { cluster, sourceConfig, process: child, logs: [], remotes, exited: false };
+
+  const record = (line: string) => {
+    server.logs.push(line);
+    if (server.logs.length > LOG_HISTORY) {
+      server.logs.shift();
+    }
+    if (echoLogs) {
+      console.error(`[${cluster.name}] ${line}`);
+    }
+  };
+  createInterface({ input: child.stdout! }).on("line", record);
+  createInterface({ input: child.stderr! }).on("line", record);
+
+  child.on("error", (error: NodeJS.ErrnoException) => {
+    server.exited = true;
+    server.startError = error.code === "ENOENT"
+      ? new Error(`nats-server binary not found (${serverBin}); install it or set NATS_SERVER_BIN`)
+      : error;
+  });
+  child.on("exit", () => {
+    server.exited = true;
+  });
+
+  return server;
+}
+
+async function waitForHealthy(server: EmbeddedServer, timeoutMs: number): Promise<void> {
+  await pollUntil(server, timeoutMs, "/healthz", async response => response.ok);
+}
+
+async function waitForLeafLinks(server: EmbeddedServer, timeoutMs: number): Promise<void> {
+  if (server.remotes === 0) {
+    return;
+  }
+  await pollUntil(server, timeoutMs, "/leafz", async response => {
+    const leafz = await response.json();
+    return (leafz.leafnodes ?? 0) >= server.remotes;
+  });
+}
+
+async function pollUntil(
+  server: EmbeddedServer,
+  timeoutMs: number,
+  endpoint: string,
+  check: (response: Response) => Promise<boolean>
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    if (server.exited) {
+      throw server.startError ?? new Error(
+        `${server.cluster.name} server exited during startup (exit code ${server.process.exitCode})\n` +
+        server.logs.slice(-10).map(line => `   ${line}`).join("\n"));
+    }
+    try {
+      const response = await fetch(`${server.cluster.monitoring}${endpoint}`, { signal: AbortSignal.timeout(1000) });
+      if (await check(response)) {
+        return;
+      }
+    } catch {
+      // Monitoring port not up yet
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  throw new Error(`${server.cluster.name} server not ready: ${endpoint} did not pass within ${timeoutMs}ms`);
+}
+
+function waitForExit(server: EmbeddedServer): Promise<void> {
+  if (server.exited) {
+    return Promise.resolve();
+  }
+  return new Promise(resolve => server.process.once("exit", () => resolve()));
+}
+
+async function findFreePorts(count: number): Promise<number[]> {
+  // Hold every listener open until all are bound so no port is handed out twice
+  const listeners = await Promise.all(Array.from({ length: count }, () => new Promise<Server>((resolve, reject) => {
+    const listener = createServer();
+    listener.once("error", reject);
+    listener.listen(0, () => resolve(listener));
+  })));
+  const ports = listeners.map(listener => (listener.address() as AddressInfo).port);
+  await Promise.all(listeners.map(listener => new Promise(resolve => listener.close(resolve))));
+  return ports;
+}
+
+function listenPorts(config: NatsConfigMap): { path: string[]; port: number }[] {
+  const found: { path: string[]; port: number }[] = [];
+  for (const path of PORT_FIELDS) {
+    const value = valueAt(config, path);
+    const port = typeof value === "number" ? value : typeof value === "string" ? Number(value.split(":").pop()) : NaN;
+    if (Number.isInteger(port) && port > 0) {
+      found.push({ path, port });
+    }
+  }
+  return found;
+}
+
+// Issues a server certificate for the configs' listener TLS blocks, a client certificate
+// per topology user and one per leaf link identity; fileMap translates the configs'
+// certificate paths to the minted files
+function mintCertificates(
+  ca: CertificateAuthority,
+  certDir: string,
+  topology: Topology,
+  configs: NatsConfigMap[]
+): { users: UserConfig[]; linkIdentities: UserConfig[]; fileMap: Map<string, string> } {
+  const caFile = ca.writeFiles(certDir).certFile;
+  const server = writeCertificate(certDir, "server", ca.issueServer());
+
+  const fileMap = new Map<string, string>();
+  for (const config of configs) {
+    for (const tls of serverTlsBlocks(config)) {
+      if (typeof tls.cert_file === "string") fileMap.set(tls.cert_file, server.certFile);
+      if (typeof tls.key_file === "string") fileMap.set(tls.key_file, server.keyFile);
+      if (typeof tls.ca_file === "string") fileMap.set(tls.ca_file, caFile);
+    }
+  }
+
+  const users = topology.users.map(user => createIdentity(ca, certDir, caFile, user));
+  const linkIdentities = (topology.linkIdentities ?? []).map(identity => {
+    const minted = createIdentity(ca, certDir, caFile, identity);
+    fileMap.set(identity.certFile, minted.certFile);
+    fileMap.set(identity.keyFile, minted.keyFile);
+    fileMap.set(identity.caFile, caFile);
+    return minted;
+  });
+
+  // A remote certificate nobody minted would leave the link pointing at a missing file
+  for (const config of configs) {
+    for (const tls of remoteTlsBlocks(config)) {
+      if (typeof tls.ca_file === "string") fileMap.set(tls.ca_file, caFile);
+      if (typeof tls.cert_file === "string" && !fileMap.has(tls.cert_file)) {
+        throw new Error(`Leaf remote certificate ${tls.cert_file} matches no linkIdentities entry in the topology`);
+      }
+    }
+  }
+
+  return { users, linkIdentities, fileMap };
+}
+
+// The client listener's and the leafnode listener's TLS, both presenting the server certificate
+function serverTlsBlocks(config: NatsConfigMap): NatsConfigMap[] {
+  return [asMap(valueAt(config, ["tls"])), asMap(valueAt(config, ["leafnodes", "tls"]))]
+    .filter((tls): tls is NatsConfigMap => tls !== undefined);
+}
+
+// TLS the leaf remotes present to the server they dial
+function remoteTlsBlocks(config: NatsConfigMap): NatsConfigMap[] {
+  const remotes = valueAt(config, ["leafnodes", "remotes"]);
+  return Array.isArray(remotes)
+    ? (remotes as NatsConfigMap[]).map(remote => asMap(remote.tls)).filter((tls): tls is NatsConfigMap => tls !== undefined)
+    : [];
+}
+
+function rewriteConfig(
+  config: NatsConfigMap,
+  portMap: Map<number, number>,
+  fileMap: Map<string, string>,
+  storeDir: string
+): NatsConfigMap {
+  const copy = replaceStrings(config, fileMap) as NatsConfigMap;
+
+  // Every run starts with empty streams instead of replaying the last run's
+  const jetstream = asMap(valueAt(copy, ["jetstream"]));
+  if (jetstream) {
+    jetstream.store_dir = storeDir;
+  }
+
+  for (const { path, port } of listenPorts(copy)) {
+    const parent = valueAt(copy, path.slice(0, -1)) as NatsConfigMap;
+    const key = path[path.length - 1];
+    const value = parent[key];
+    const newPort = portMap.get(port) ?? port;
+    parent[key] = typeof value === "string" && value.includes(":")
+      ? `${value.slice(0, value.lastIndexOf(":"))}:${newPort}`
+      : newPort;
+  }
+
+  // Leaf remotes point at another server in the topology, which has moved too
+  const remotes = valueAt(copy, ["leafnodes", "remotes"]);
+  if (Array.isArray(remotes)) {
+    for (const remote of remotes as NatsConfigMap[]) {
+      if (typeof remote.url === "string") {
+        remote.url = remapUrl(remote.url, portMap);
+      }
+      if (Array.isArray(remote.urls)) {
+        remote.urls = remote.urls.map(url => typeof url === "string" ? remapUrl(url, portMap) : url);
+      }
+    }
+  }
+
+  for (const field of DROPPED_FIELDS) {
+    delete copy[field];
+  }
+  return copy;
+}
+
+function replaceStrings(value: NatsConfigValue, replacements: Map<string, string>): NatsConfigValue {
+  if (typeof value === "string") {
+    return replacements.get(value) ?? value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => replaceStrings(item, replacements));
+  }
+  if (typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replaceStrings(item, replacements)]));
+  }
+  return value;
+}
+
+function remapUrl(url: string, portMap: Map<number, number>): string {
+  const parsed = new URL(url);
+  const newPort = portMap.get(Number(parsed.port));
+  if (newPort === undefined) {
+    return url;
+  }
+  const path = parsed.pathname === "/" ? "" : parsed.pathname;
+  return `${parsed.protocol}//${parsed.hostname}:${newPort}${path}`;
+}
+
+function leafRemoteCount(config: NatsConfigMap): number {
+  const remotes = valueAt(config, ["leafnodes", "remotes"]);
+  return Array.isArray(remotes) ? remotes.length : 0;
+}
+
+function checkTlsFiles(config: NatsConfigMap): void {
+  for (const tls of [...serverTlsBlocks(config), ...remoteTlsBlocks(config)]) {
+    for (const field of ["cert_file", "key_file", "ca_file"]) {
+      const file = tls[field];
+      if (typeof file === "string" && !existsSync(file)) {
+        throw new Error(`Missing TLS file ${file}. Generate certificates with ./setup-tls.sh first`);
+      }
+    }
+  }
+}
+
+function valueAt(config: NatsConfigMap, path: string[]): NatsConfigValue | undefined {
+  let value: NatsConfigValue | undefined = config;
+  for (const key of path) {
+    const map = asMap(value);
+    if (!map) {
+      return undefined;
+    }
+    value = map[key];
+  }
+  return value;
+}
@@ -0,0 +1,339 @@
+// NATS Request/Reply Service
+// `service.handle("rpc.hello.world", async (req) => res)` instead of hand-rolled "if msg.reply then publish":
+// typed codecs, error replies with Nats-Service-Error headers, a concurrency limit, and
+// discovery over the micro protocol ($SRV.PING/INFO/STATS) so `nats micro ls` finds the handlers
+
+import {
+  Codec, Empty, JSONCodec, Msg, MsgHdrs, NatsConnection, ServiceError, ServiceErrorCodeHeader, ServiceErrorHeader,
+  ServiceIdentity, ServiceInfo, ServiceResponseType, ServiceStats, ServiceVerb, Subscription, headers, nuid
+} from "nats";
+import { PermissionContext, checkedSubscribe } from "./nats-subscribe.js";
+import { PayloadCodecError, PermissionDeniedError } from "./nats-errors.js";
+import { Envelope, envelopeHeaders } from "./nats-envelope.js";
+import { CONTENT_TYPE_HEADER, CodecRegistry } from "./nats-codecs.js";
+
+export const DEFAULT_MAX_CONCURRENT = 16;
+
+export interface ServiceRequest<T> {
+  subject: string;       // Subject the request arrived on
+  pattern: string;       // Subject the handler was registered for
+  data: T;
+  headers?: MsgHdrs;
+  reply?: string;        // Absent for plain publishes: the handler runs, the result is dropped
+  cluster: string;
+}
+
+export type ServiceHandler<Req, Res> = (request: ServiceRequest<Req>) => Promise<Res> | Res;
+
+export interface HandlerOptions<Req, Res> {
+  name?: string;                 // Endpoint name in INFO/STATS, derived from the subject if omitted
+  queue?: string;
+  requestCodec?: Codec<Req>;     // Default: strict JSON, malformed requests get a 400
+  responseCodec?: Codec<Res>;    // Default: JSON
+  payloads?: CodecRegistry;      // Decode by the request's Content-Type instead (unsupported ones get a 415), reply labelled
+  metadata?: Record<string, string>;
+}
+
+export interface ServiceOptions {
+  name: string;
+  version: string;
+  description?: string;
+  context: PermissionContext;    // Cluster and user, for permission errors and requests
+  maxConcurrent?: number;        // Requests in flight across all handlers
+  discovery?: boolean;           // Answer $SRV.PING/INFO/STATS, default true
+  metadata?: Record<string, string>;
+  replyEnvelope?: () => Envelope;  // Stamped as headers on every reply, error replies included
+  onReply?: (request: ServiceRequest<unknown>) => void;
+  // Also told when an error reply cannot be sent, and when an endpoint's subscription fails
+  // (the request then carries only the endpoint's subject)
+  onError?: (request: ServiceRequest<unknown>, error: ServiceError) => void;
+}
+
+// The codecs for one request, and the Content-Type its reply is labelled with
+interface MessageCodecs<Req, Res> {
+  request: Codec<Req>;
+  response: Codec<Res>;
+  contentType?: string;
+}
+
+interface Endpoint {
+  name: string;
+  subject: string;
+  queue?: string;
+  metadata?: Record<string, string>;
+  subscription: Subscription;
+  requests: number;
+  errors: number;
+  lastError?: string;
+  processingNanos: number;
+}
+
+const DISCOVERY_VERBS = [ServiceVerb.PING, ServiceVerb.INFO, ServiceVerb.STATS];
+
+// Requester side: an error reply becomes a thrown ServiceError instead of an empty payload to parse
+export function decodeReply<T>(msg: Msg, codec: Codec<T> = JSONCodec<T>()): T {
+  const error = ServiceError.toServiceError(msg);
+  if (error) {
+    throw error;
+  }
+  return codec.decode(msg.data);
+}
+
+// rpc.hello.world -> rpc-hello-world, broad.rpc.> -> broad-rpc-all
+export function endpointName(subject: string): string {
+  return subject.split(".").map(t => t === ">" ? "all" : t === "*" ? "any" : t).join("-");
+}
+
+function toServiceError(error: unknown): ServiceError {
+  if (error instanceof ServiceError) {
+    return error;
+  }
+  return new ServiceError(500, error instanceof Error ? error.message : String(error));
+}
+
+export class NatsService {
+  readonly id = nuid.next();
+  private endpoints: Endpoint[] = [];
+  private discovery: Subscription[] = [];
+  private started = new Date().toISOString();
+  private inFlight = new Set<Promise<void>>();
+  private waiting: (() => void)[] = [];
+  private stopped = false;
+
+  constructor(private nc: NatsConnection, private options: ServiceOptions) {}
+
+  get subjects(): string[] {
+    return this.endpoints.map(e => e.subject);
+  }
+
+  get discoverable(): boolean {
+    return this.discovery.length > 0;
+  }
+
+  // Throws PermissionDeniedError if the server refuses the subscription
+  async handle<Req = unknown, Res = unknown>(
+    subject: string,
+    handler: ServiceHandler<Req, Res>,
+    opts: HandlerOptions<Req, Res> = {}
+  ): Promise<void> {
+    if (this.stopped) {
+      throw new Error(`Service ${this.options.name} is stopped`);
+    }
+    const subscription = await checkedSubscribe(this.nc, subject, this.options.context, { queue: opts.queue });
+    const endpoint: Endpoint = {
+      name: opts.name ?? endpointName(subject),
+      subject,
+      queue: opts.queue,
+      metadata: opts.metadata,
+      subscription,
+      requests: 0,
+      errors: 0,
+      processingNanos: 0
+    };
+    this.endpoints.push(endpoint);
+
+    const fixed: MessageCodecs<Req, Res> = {
+      request: opts.requestCodec ?? JSONCodec<Req>(),
+      response: opts.responseCodec ?? JSONCodec<Res>()
+    };
+    const payloads = opts.payloads;
+    const codecsFor = payloads
+      ? (msg: Msg): MessageCodecs<Req, Res> => {
+        const request = payloads.forHeaders(msg.headers);
+        const response = payloads.replyCodec(request);
+        return { request: request as Codec<Req>, response: response as Codec<Res>, contentType: response.contentType };
+      }
+      : () => fixed;
+    (async () => {
+      for await (const msg of subscription) {
+        // Past the limit, stop pulling: further messages wait in the subscription
+        await this.acquire();
+        const task = this.dispatch(endpoint, msg, handler, codecsFor).finally(() => {
+          this.inFlight.delete(task);
+          this.release();
+        });
+        this.inFlight.add(task);
+      }
+    })().catch(error => {
+      // The subscription ended with an error, e.g. a permission revoked by the server
+      const serviceError = toServiceError(error);
+      endpoint.errors++;
+      endpoint.lastError = `${serviceError.code}:${serviceError.message}`;
+      this.options.onError?.({ subject, pattern: subject, data: undefined, cluster: this.options.context.cluster }, serviceError);
+    });
+  }
+
+  // Joins micro discovery; a user without $SRV permissions keeps serving, just undiscoverable
+  async start(): Promise<boolean> {
+    if (this.options.discovery === false || this.discoverable) {
+      return this.discoverable;
+    }
+
+    const subjects = DISCOVERY_VERBS.flatMap(verb => [
+      `$SRV.${verb}`,
+      `$SRV.${verb}.${this.options.name}`,
+      `$SRV.${verb}.${this.options.name}.${this.id}`
+    ]);
+    try {
+      for (const subject of subjects) {
+        const sub = await checkedSubscribe(this.nc, subject, this.options.context, {
+          callback: (err, msg) => {
+            if (!err) this.answerDiscovery(subject, msg);
+          }
+        });
+        this.discovery.push(sub);
+      }
+    } catch (error) {
+      this.discovery.forEach(sub => sub.unsubscribe());
+      this.discovery = [];
+      if (error instanceof PermissionDeniedError) {
+        console.log(`🔍 Discovery disabled for ${this.options.name}: ${error.message}`);
+        return false;
+      }
+      throw error;
+    }
+    return true;
+  }
+
+  info(): ServiceInfo {
+    return {
+      ...this.identity(ServiceResponseType.INFO),
+      description: this.options.description ?? "",
+      endpoints: this.endpoints.map(e => ({
+        name: e.name,
+        subject: e.subject,
+        queue_group: e.queue,
+        metadata: e.metadata
+      }))
+    };
+  }
+
+  ping(): ServiceIdentity {
+    return this.identity(ServiceResponseType.PING);
+  }
+
+  stats(): ServiceStats {
+    return {
+      ...this.identity(ServiceResponseType.STATS),
+      started: this.started,
+      endpoints: this.endpoints.map(e => ({
+        name: e.name,
+        subject: e.subject,
+        queue_group: e.queue,
+        num_requests: e.requests,
+        num_errors: e.errors,
+        last_error: e.lastError,
+        processing_time: e.processingNanos,
+        average_processing_time: e.requests > 0 ? Math.round(e.processingNanos / e.requests) : 0
+      }))
+    };
+  }
+
+  // Drains the subscriptions and waits for the requests already in progress to be answered
+  async stop(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+    this.stopped = true;
+    for (const sub of [...this.discovery, ...this.endpoints.map(e => e.subscription)]) {
+      try {
+        await sub.drain();
+      } catch {
+        // The connection may already be closing
+      }
+    }
+    await Promise.allSettled([...this.inFlight]);
+  }
+
+  private identity<T extends ServiceResponseType>(type: T) {
+    return {
+      type,
+      name: this.options.name,
+      id: this.id,
+      version: this.options.version,
+      metadata: this.options.metadata ?? {}
+    };
+  }
+
+  private answerDiscovery(subject: string, msg: Msg) {
+    const verb = subject.split(".")[1];
+    const body = verb === ServiceVerb.PING ? this.ping() : verb === ServiceVerb.INFO ? this.info() : this.stats();
+    msg.respond(JSONCodec().encode(body));
+  }
+
+  private async acquire(): Promise<void> {
+    const limit = this.options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+    while (this.inFlight.size >= limit) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+  }
+
+  private release() {
+    this.waiting.shift()?.();
+  }
+
+  private async dispatch<Req, Res>(
+    endpoint: Endpoint,
+    msg: Msg,
+    handler: ServiceHandler<Req, Res>,
+    codecsFor: (msg: Msg) => MessageCodecs<Req, Res>
+  ): Promise<void> {
+    const start = process.hrtime.bigint();
+    endpoint.requests++;
+
+    const request: ServiceRequest<Req> = {
+      subject: msg.subject,
+      pattern: endpoint.subject,
+      data: undefined as Req,
+      headers: msg.headers,
+      reply: msg.reply || undefined,
+      cluster: this.options.context.cluster
+    };
+
+    try {
+      let codecs: MessageCodecs<Req, Res>;
+      try {
+        codecs = codecsFor(msg);
+      } catch (error) {
+        throw new ServiceError(415, error instanceof PayloadCodecError ? error.message : String(error));
+      }
+      try {
+        request.data = codecs.request.decode(msg.data);
+      } catch (error) {
+        throw new ServiceError(400, `Malformed request: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const response = await handler(request);
+      if (request.reply) {
+        const data = codecs.response.encode(response);
+        const envelope = this.options.replyEnvelope?.();
+        let h = envelope ? envelopeHeaders(envelope) : undefined;
+        if (codecs.contentType) {
+          h = h ?? headers();
+          h.set(CONTENT_TYPE_HEADER, codecs.contentType);
+        }
+        msg.respond(data, h ? { headers: h } : undefined);
+        this.options.onReply?.(request);
+      }
+    } catch (error) {
+      const serviceError = toServiceError(error);
+      endpoint.errors++;
+      endpoint.lastError = `${serviceError.code}:${serviceError.message}`;
+      if (request.reply) {
+        const envelope = this.options.replyEnvelope?.();
+        const h = envelope ? envelopeHeaders(envelope) : headers();
+        h.set(ServiceErrorHeader, serviceError.message);
+        h.set(ServiceErrorCodeHeader, String(serviceError.code));
+        try {
+          msg.respond(Empty, { headers: h });
+        } catch (replyError) {
+          // Closed or draining connection: the requester times out instead
+          this.options.onError?.(request, toServiceError(replyError));
+        }
+      }
+      this.options.onError?.(request, serviceError);
+    } finally {
+      endpoint.processingNanos += Number(process.hrtime.bigint() - start);
+    }
+  }
+}
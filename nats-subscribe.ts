@@ -0,0 +1,56 @@
+// NATS Checked Subscribe
+// Subscribes and waits for the server to accept or reject the subscription,
+// instead of sleeping and hoping no "-ERR Permissions Violation" arrived
+
+import { Events, NatsConnection, QueuedIterator, Status, Subscription, SubscriptionOptions } from "nats";
+import { PermissionDeniedError } from "./nats-errors.js";
+
+export interface PermissionContext {
+  cluster: string;
+  user: string;
+}
+
+export async function checkedSubscribe(
+  nc: NatsConnection,
+  subject: string,
+  context: PermissionContext,
+  opts: SubscriptionOptions = {}
+): Promise<Subscription> {
+  let serverMessage: string | undefined;
+
+  // Watch for the async permissions error targeting this subject
+  const statusIterator = nc.status() as QueuedIterator<Status>;
+  (async () => {
+    for await (const status of statusIterator) {
+      const ctx = status.permissionContext;
+      if (status.type === Events.Error && ctx?.operation === "subscription" && ctx.subject === subject) {
+        serverMessage = `Permissions Violation for Subscription to "${subject}"`;
+      }
+    }
+  })();
+
+  const sub = nc.subscribe(subject, opts);
+  let closedBeforeConfirm = false;
+  sub.closed.then(() => { closedBeforeConfirm = true; });
+
+  try {
+    // The server answers SUB with -ERR before the PONG, so once flush()
+    // resolves any rejection has already closed the subscription
+    await nc.flush();
+    await new Promise(resolve => setImmediate(resolve));
+  } finally {
+    statusIterator.stop();
+  }
+
+  if (nc.isClosed()) {
+    throw new Error(`Connection closed while subscribing to ${subject}`);
+  }
+
+  // A subscription that already delivered (e.g. hit its `max`) was accepted
+  const closed = (closedBeforeConfirm || sub.isClosed()) && sub.getReceived() === 0;
+  if (serverMessage || closed) {
+    throw new PermissionDeniedError("subscribe", subject, context.cluster, context.user, serverMessage);
+  }
+
+  return sub;
+}
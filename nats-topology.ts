@@ -0,0 +1,145 @@
+// NATS Topology - Shared identity and cluster definitions
+// Loads users (TLS client identities) and clusters from a single declarative file
+// so that adding a user or a cluster doesn't mean editing every script
+
+import { ConnectionOptions } from "nats";
+import { readFileSync } from "fs";
+import { FallbackCondition } from "./nats-errors.js";
+
+export interface UserConfig {
+  id: string;          // CLI identifier, e.g. "foo"
+  name: string;        // Display name, e.g. "Foo"
+  email: string;       // Certificate email SAN mapped by verify_and_map
+  certFile: string;
+  keyFile: string;
+  caFile: string;
+  description: string;
+}
+
+export interface ClusterInfo {
+  name: string;
+  url: string;
+  monitoring: string;
+  description: string;
+  configFile: string;
+}
+
+// One hop of a fallback chain: where to send, how long to wait,
+// and which failures move on to the next hop
+export interface FallbackStep {
+  subject: string;
+  cluster: string;
+  timeout?: number;                  // Defaults to DEFAULT_STEP_TIMEOUT
+  advanceOn?: FallbackCondition[];  // Defaults to canFallback() when omitted
+  mode?: "request" | "publish";      // "publish" parks the message without waiting for a reply
+}
+
+export interface Topology {
+  users: UserConfig[];
+  linkIdentities?: UserConfig[];  // Presented by leafnode remotes to the server they dial, never by clients
+  clusters: ClusterInfo[];  // Listed in order of preference (main first)
+  fallbackChains?: Record<string, FallbackStep[]>;
+}
+
+export const DEFAULT_TOPOLOGY_FILE = "./nats-topology.json";
+export const DEFAULT_STEP_TIMEOUT = 2000;
+
+let cachedTopology: Topology | null = null;
+
+export function loadTopology(file: string = process.env.NATS_TOPOLOGY || DEFAULT_TOPOLOGY_FILE): Topology {
+  if (cachedTopology) {
+    return cachedTopology;
+  }
+
+  let parsed: Topology;
+  try {
+    parsed = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Failed to load topology from ${file}: ${error.message}`);
+  }
+
+  if (!Array.isArray(parsed.users) || !Array.isArray(parsed.clusters)) {
+    throw new Error(`Invalid topology in ${file}: expected "users" and "clusters" arrays`);
+  }
+
+  cachedTopology = parsed;
+  return cachedTopology;
+}
+
+// Switches this process and any child it spawns afterwards to another topology file
+// (e.g. one generated for servers started on free ports)
+export function useTopology(file: string): void {
+  process.env.NATS_TOPOLOGY = file;
+  cachedTopology = null;
+}
+
+export function listUsers(): UserConfig[] {
+  return loadTopology().users;
+}
+
+export function listLinkIdentities(): UserConfig[] {
+  return loadTopology().linkIdentities ?? [];
+}
+
+export function listClusters(): ClusterInfo[] {
+  return loadTopology().clusters;
+}
+
+export function findUser(id: string): UserConfig | undefined {
+  const key = id.toLowerCase();
+  return listUsers().find(u => u.id === key || u.name.toLowerCase() === key);
+}
+
+export function findCluster(name: string): ClusterInfo | undefined {
+  return listClusters().find(c => c.name === name.toLowerCase());
+}
+
+export function getUser(id: string): UserConfig {
+  const user = findUser(id);
+  if (!user) {
+    throw new Error(`Unknown user: ${id} (available: ${listUsers().map(u => u.id).join(', ')})`);
+  }
+  return user;
+}
+
+export function getCluster(name: string): ClusterInfo {
+  const cluster = findCluster(name);
+  if (!cluster) {
+    throw new Error(`Unknown cluster: ${name} (available: ${listClusters().map(c => c.name).join(', ')})`);
+  }
+  return cluster;
+}
+
+export function listFallbackChains(): string[] {
+  return Object.keys(loadTopology().fallbackChains ?? {});
+}
+
+export function getFallbackChain(name: string): FallbackStep[] {
+  const chain = loadTopology().fallbackChains?.[name];
+  if (!chain || chain.length === 0) {
+    throw new Error(`Unknown fallback chain: ${name} (available: ${listFallbackChains().join(', ')})`);
+  }
+  for (const step of chain) {
+    // Fail on typos at load time rather than on the hop that needs them
+    getCluster(step.cluster);
+  }
+  return chain;
+}
+
+export function buildConnectionOptions(
+  user: UserConfig,
+  cluster: ClusterInfo,
+  overrides: Partial<ConnectionOptions> = {}
+): ConnectionOptions {
+  return {
+    servers: [cluster.url],
+    tls: {
+      certFile: user.certFile,
+      keyFile: user.keyFile,
+      caFile: user.caFile
+    },
+    name: `${user.name}_${cluster.name}`,
+    timeout: 5000,
+    ...overrides
+  };
+}
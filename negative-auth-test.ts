@@ -0,0 +1,355 @@
+#!/usr/bin/env node
+
+// NATS Negative Authentication Test
+// Connects to each cluster with identities verify_and_map should not accept (unknown SAN,
+// no SAN, expired, foreign CA, no client cert...) and asserts how the server responds.
+// Any unmapped identity that gets in has fallen through to default_permissions
+
+import { connect, ConnectionOptions, ErrorCode } from "nats";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { ClusterInfo, UserConfig, getUser, listClusters, findCluster, buildConnectionOptions } from "./nats-topology.js";
+import { BrokenCertKind, CertificateAuthority, IssuedCertificate, writeCertificate } from "./nats-ca.js";
+import { classifyNatsError, PermissionDeniedError } from "./nats-errors.js";
+import { PermissionProbe, describePermissionSet, toUserPermissions } from "./nats-permissions.js";
+import { getAuthorization, loadNatsConfig } from "./nats-config.js";
+import { checkedSubscribe } from "./nats-subscribe.js";
+import { verifyPublish } from "./nats-publish-verify.js";
+import { ClusterHarness, EMBEDDED_FLAG } from "./nats-server-harness.js";
+
+// tls-rejected         - the TLS handshake (or the connection right after it) failed with a TLS or certificate error
+// auth-rejected        - TLS passed but the server answered "Authorization Violation"
+// connected-restricted - connected, and the probe subject was denied both ways
+// connected-open       - connected, and the probe subject was allowed to publish or subscribe
+// unreachable          - nothing listening; the cluster isn't running
+// error                - the connection failed for any other reason (timeout, missing CA file...)
+type AuthOutcome = "tls-rejected" | "auth-rejected" | "connected-restricted" | "connected-open" | "unreachable" | "error";
+
+interface NegativeAuthCase {
+  name: string;
+  description: string;
+  mapped: boolean;  // Whether verify_and_map should find a user for this identity
+  credentials: (ca: CertificateAuthority) => IssuedCertificate | null;  // null: no client certificate
+  email: string;
+  expected: Record<string, AuthOutcome>;  // By cluster name
+}
+
+interface AuthObservation {
+  testCase: NegativeAuthCase;
+  cluster: string;
+  outcome: AuthOutcome;
+  detail: string;
+  authorizedUser?: string | null;
+}
+
+// Outside every user's allow list on main, so only a default or wildcard grant passes it
+const PROBE_SUBJECT = "negative.auth.probe";
+const CONNECT_TIMEOUT = 3000;
+
+// Node's codes for TLS alerts, handshake failures and certificate checks
+const TLS_ERROR_CODE = /^(ERR_SSL_|ERR_TLS_|CERT_)/;
+
+const broken = (kind: BrokenCertKind, email: string) => (ca: CertificateAuthority) => ca.issueBroken(kind, email);
+
+const NEGATIVE_AUTH_CASES: NegativeAuthCase[] = [
+  {
+    name: "mapped-control",
+    description: "Valid cert for foo@localhost (positive control)",
+    mapped: true,
+    email: "foo@localhost",
+    credentials: ca => ca.issueClient("foo@localhost"),
+    expected: { main: "connected-restricted", leaf: "connected-open" }
+  },
+  {
+    name: "unknown-san",
+    description: "Valid cert whose email SAN matches no user",
+    mapped: false,
+    email: "intruder@localhost",
+    credentials: ca => ca.issueClient("intruder@localhost"),
+    expected: { main: "auth-rejected", leaf: "auth-rejected" }
+  },
+  {
+    name: "leaf-link-as-client",
+    description: "Valid cert for the leaf link identity, used as a client (LEAFNODE connections only)",
+    mapped: false,
+    email: "leaf-link@localhost",
+    credentials: ca => ca.issueClient("leaf-link@localhost"),
+    expected: { main: "auth-rejected", leaf: "auth-rejected" }
+  },
+  {
+    name: "missing-san",
+    description: "Valid cert without subjectAltName (only the subject DN to map)",
+    mapped: false,
+    email: "foo@localhost",
+    credentials: broken("missing-san", "foo@localhost"),
+    expected: { main: "auth-rejected", leaf: "auth-rejected" }
+  },
+  {
+    name: "expired",
+    description: "Expired cert for foo@localhost",
+    mapped: false,
+    email: "foo@localhost",
+    credentials: broken("expired", "foo@localhost"),
+    expected: { main: "tls-rejected", leaf: "tls-rejected" }
+  },
+  {
+    name: "not-yet-valid",
+    description: "Cert for foo@localhost that is not valid until tomorrow",
+    mapped: false,
+    email: "foo@localhost",
+    credentials: broken("not-yet-valid", "foo@localhost"),
+    expected: { main: "tls-rejected", leaf: "tls-rejected" }
+  },
+  {
+    name: "wrong-ca",
+    description: "Cert for foo@localhost signed by a look-alike CA",
+    mapped: false,
+    email: "foo@localhost",
+    credentials: broken("wrong-ca", "foo@localhost"),
+    expected: { main: "tls-rejected", leaf: "tls-rejected" }
+  },
+  {
+    name: "wrong-usage",
+    description: "Cert for foo@localhost usable for serverAuth only",
+    mapped: false,
+    email: "foo@localhost",
+    credentials: broken("wrong-usage", "foo@localhost"),
+    expected: { main: "tls-rejected", leaf: "tls-rejected" }
+  },
+  {
+    name: "no-client-cert",
+    description: "TLS without a client certificate",
+    mapped: false,
+    email: "",
+    credentials: () => null,
+    expected: { main: "tls-rejected", leaf: "tls-rejected" }
+  }
+];
+
+// The TLS code on the error or anything it wraps: Node errors chain through cause,
+// NatsError through chainedError
+function findTlsErrorCode(error: unknown): string | undefined {
+  const seen = new Set<unknown>();
+  let current = error as { code?: unknown; cause?: unknown; chainedError?: unknown } | undefined;
+  while (current && typeof current === "object" && !seen.has(current)) {
+    seen.add(current);
+    if (typeof current.code === "string" && TLS_ERROR_CODE.test(current.code)) {
+      return current.code;
+    }
+    current = (current.cause ?? current.chainedError) as typeof current;
+  }
+  return undefined;
+}
+
+class NegativeAuthTest {
+  private observations: AuthObservation[] = [];
+  private harness?: ClusterHarness;
+  private certDir = mkdtempSync(join(tmpdir(), "nats-negative-auth-"));
+
+  constructor(private clusters: string[], private embedded: boolean) {}
+
+  async run(): Promise<boolean> {
+    try {
+      if (this.embedded) {
+        console.log("🏗️  Starting embedded NATS clusters...");
+        this.harness = await ClusterHarness.start();
+        for (const line of this.harness.describe()) {
+          console.log(`   ✅ ${line}`);
+        }
+        console.log("");
+      }
+
+      const ca = this.harness?.ca ?? this.loadRepoCa();
+      const caFile = getUser("foo").caFile;
+
+      for (const clusterName of this.clusters) {
+        const cluster = findCluster(clusterName)!;
+        this.showDefaultPermissions(cluster);
+
+        for (const testCase of NEGATIVE_AUTH_CASES) {
+          const observation = await this.runCase(testCase, cluster, ca, caFile);
+          this.observations.push(observation);
+          this.showObservation(observation);
+        }
+        console.log("");
+      }
+
+      return this.showSummary();
+    } catch (error) {
+      console.error(`❌ Test failed: ${error.message}`);
+      this.harness?.printLogTail();
+      return false;
+    } finally {
+      rmSync(this.certDir, { recursive: true, force: true });
+      await this.harness?.stop();
+    }
+  }
+
+  // Negative identities must chain to the CA the running servers trust
+  private loadRepoCa(): CertificateAuthority {
+    const caFile = getUser("foo").caFile;
+    const keyFile = join(dirname(caFile), "ca-key.pem");
+    if (!existsSync(caFile) || !existsSync(keyFile)) {
+      throw new Error(`CA not found (${caFile}, ${keyFile}). Run ./setup-tls.sh or rerun with ${EMBEDDED_FLAG}`);
+    }
+    return CertificateAuthority.load(caFile, keyFile);
+  }
+
+  private showDefaultPermissions(cluster: ClusterInfo) {
+    const defaults = toUserPermissions(getAuthorization(loadNatsConfig(cluster.configFile))?.default_permissions);
+
+    console.log(`🧪 ${cluster.name} cluster (${cluster.url})`);
+    console.log("=".repeat(50));
+    console.log(`   default_permissions: publish ${describePermissionSet(defaults.publish)} | subscribe ${describePermissionSet(defaults.subscribe)}`);
+    if (defaults.publish.allow.includes(">") || defaults.subscribe.allow.includes(">")) {
+      console.log("   🕳️  Allow-all default: any identity that falls through gets full access");
+    }
+  }
+
+  private async runCase(testCase: NegativeAuthCase, cluster: ClusterInfo, ca: CertificateAuthority, caFile: string): Promise<AuthObservation> {
+    const observation = { testCase, cluster: cluster.name };
+    const identity = this.writeIdentity(testCase, ca, caFile);
+    const options: ConnectionOptions = identity
+      ? buildConnectionOptions(identity, cluster, { name: `negative_auth_${testCase.name}`, timeout: CONNECT_TIMEOUT })
+      : { servers: [cluster.url], tls: { caFile }, name: `negative_auth_${testCase.name}`, timeout: CONNECT_TIMEOUT };
+
+    let nc;
+    try {
+      nc = await connect(options);
+    } catch (error) {
+      const failure = classifyNatsError(error);
+      if (failure.kind === "authentication") {
+        return { ...observation, outcome: "auth-rejected", detail: failure.message };
+      }
+      if (failure.kind === "connection" && failure.code === ErrorCode.ConnectionRefused) {
+        return { ...observation, outcome: "unreachable", detail: failure.message };
+      }
+      const tlsCode = findTlsErrorCode(error);
+      if (tlsCode) {
+        return { ...observation, outcome: "tls-rejected", detail: `${tlsCode}: ${failure.message}` };
+      }
+      return { ...observation, outcome: "error", detail: failure.message };
+    }
+
+    try {
+      const context = { cluster: cluster.name, user: testCase.name };
+      const publish = await verifyPublish(nc, PROBE_SUBJECT, context, { timeout: 500 });
+
+      let subscribeAllowed = true;
+      try {
+        const sub = await checkedSubscribe(nc, PROBE_SUBJECT, context);
+        sub.unsubscribe();
+      } catch (error) {
+        if (!(error instanceof PermissionDeniedError)) throw error;
+        subscribeAllowed = false;
+      }
+
+      const publishAllowed = publish.verdict !== "denied";
+      const authorizedUser = identity ? await new PermissionProbe(nc, identity, cluster).fetchAuthorizedUser() : null;
+      return {
+        ...observation,
+        outcome: publishAllowed || subscribeAllowed ? "connected-open" : "connected-restricted",
+        detail: `publish ${publishAllowed ? "allowed" : "denied"}, subscribe ${subscribeAllowed ? "allowed" : "denied"} on ${PROBE_SUBJECT}`,
+        authorizedUser
+      };
+    } finally {
+      await nc.close();
+    }
+  }
+
+  private writeIdentity(testCase: NegativeAuthCase, ca: CertificateAuthority, caFile: string): UserConfig | null {
+    const issued = testCase.credentials(ca);
+    if (!issued) {
+      return null;
+    }
+    const files = writeCertificate(this.certDir, testCase.name, issued);
+    return {
+      id: testCase.name,
+      name: testCase.name,
+      email: testCase.email,
+      description: testCase.description,
+      caFile,
+      ...files
+    };
+  }
+
+  private isHole(observation: AuthObservation): boolean {
+    return !observation.testCase.mapped && observation.outcome.startsWith("connected");
+  }
+
+  private showObservation(observation: AuthObservation) {
+    const expected = observation.testCase.expected[observation.cluster];
+    const icon = this.isHole(observation) ? "🕳️ " : observation.outcome === expected ? "✅" : "❌";
+    console.log(`   ${icon} ${observation.testCase.name.padEnd(16)} ${observation.outcome.padEnd(21)} (expected ${expected})`);
+    console.log(`      ${observation.testCase.description}`);
+    console.log(`      ${observation.detail}${observation.authorizedUser ? ` - mapped to ${observation.authorizedUser}` : ""}`);
+  }
+
+  private showSummary(): boolean {
+    const mismatches = this.observations.filter(o => o.outcome !== o.testCase.expected[o.cluster]);
+    const holes = this.observations.filter(o => this.isHole(o));
+    const unreachable = this.observations.filter(o => o.outcome === "unreachable");
+
+    console.log("📊 Negative Authentication Summary");
+    console.log("==================================");
+    console.log(`   Cases: ${this.observations.length}, as expected: ${this.observations.length - mismatches.length}`);
+
+    if (unreachable.length > 0) {
+      const clusters = [...new Set(unreachable.map(o => o.cluster))];
+      console.log(`   ⚠️  Unreachable: ${clusters.join(", ")}. Start with: ./start-clusters.sh (or rerun with ${EMBEDDED_FLAG})`);
+    }
+    for (const hole of holes) {
+      console.log(`   🕳️  ${hole.testCase.name} got into ${hole.cluster} via default_permissions (${hole.detail})`);
+    }
+    for (const mismatch of mismatches.filter(o => !this.isHole(o) && o.outcome !== "unreachable")) {
+      console.log(`   ❌ ${mismatch.testCase.name} on ${mismatch.cluster}: ${mismatch.outcome}, expected ${mismatch.testCase.expected[mismatch.cluster]}`);
+    }
+
+    const passed = mismatches.length === 0;
+    console.log(`\n${passed ? "🎉 Negative authentication PASSED" : "💥 Negative authentication FAILED"}`);
+    return passed;
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const positional = args.filter(arg => !arg.startsWith("--"));
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log("🚀 NATS Negative Authentication Test");
+    console.log("=====================================");
+    console.log("Usage:");
+    console.log("  npx tsx negative-auth-test.ts [cluster]               # Against ./start-clusters.sh (all clusters by default)");
+    console.log(`  npx tsx negative-auth-test.ts ${EMBEDDED_FLAG} [cluster]    # Start nats-server on free ports for the run`);
+    console.log("");
+    console.log("Cases:");
+    for (const testCase of NEGATIVE_AUTH_CASES) {
+      console.log(`  ${testCase.name.padEnd(16)} ${testCase.description}`);
+    }
+    return;
+  }
+
+  const clusters = positional.length > 0 ? positional : listClusters().map(c => c.name);
+  for (const name of clusters) {
+    if (!findCluster(name)) {
+      console.log(`❌ Unknown cluster: ${name}`);
+      console.log(`Available clusters: ${listClusters().map(c => c.name).join(', ')}`);
+      process.exit(1);
+    }
+  }
+
+  console.log("🚀 NATS Negative Authentication Test");
+  console.log("=====================================");
+  console.log("Identities verify_and_map should turn away, and what each cluster actually does with them\n");
+
+  const test = new NegativeAuthTest(clusters, args.includes(EMBEDDED_FLAG));
+  if (!await test.run()) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error("❌ Application error:", error);
+  process.exit(1);
+});
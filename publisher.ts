@@ -1,210 +1,318 @@
 #!/usr/bin/env node
 
 // NATS Publisher POC - Request with Fallback Test
-// This script attempts to publish to a primary subject, then falls back to an alternative
-
-import { connect, ConnectionOptions, NatsConnection, NatsError } from "nats";
-import { readFileSync } from "fs";
-
-interface UserConfig {
-  name: string;
-  certFile: string;
-  keyFile: string;
-  caFile: string;
-  server: string;
-}
+// This script walks a fallback chain from nats-topology.json, hop by hop,
+// until one subject/cluster answers or a failure isn't an advance condition
+
+import { connect, ConnectionOptions, NatsConnection } from "nats";
+import { UserConfig, FallbackStep, DEFAULT_STEP_TIMEOUT, getUser, getCluster, getFallbackChain, buildConnectionOptions } from "./nats-topology.js";
+import { NatsFailure, PermissionDeniedError, FallbackExhaustedError, classifyNatsError, shouldAdvance, describeFailure, failureLabel } from "./nats-errors.js";
+import { verifyPublish } from "./nats-publish-verify.js";
+import { RouteCache } from "./nats-route-cache.js";
+import { emit, initEventOutput, isJsonMode } from "./nats-events.js";
+import { GatherOptions, GatherResult, DEFAULT_GATHER_WINDOW, scatterGather } from "./nats-scatter-gather.js";
+import { stampMessageId } from "./nats-dedup.js";
+import { envelopeHeaders } from "./nats-envelope.js";
+import { CODEC_USAGE, CodecArgs, CodecRegistry, PayloadCodec, parseCodecArgs, withContentType } from "./nats-codecs.js";
 
 interface PublishConfig {
   user: UserConfig;
-  primarySubject: string;
-  fallbackSubject: string;
+  chain: string;              // Name of a fallback chain in nats-topology.json
   scenario: string;
-  requestTimeout: number;
+  routeCacheTtl?: number;     // How long learned denials are skipped (ms), 0 disables
+}
+
+interface PublisherArgs {
+  scenario?: string;
+  message: string;
+  interactive: boolean;
+  gatherSubject?: string;     // --gather: collect every reply instead of walking the chain
+  gatherCluster?: string;
+  gather: GatherOptions;      // Also used by the interactive gather command
+}
+
+interface HopAttempt {
+  hop: number;                // 1-based position in the chain
+  step: FallbackStep;
+  latencyMs: number;
+  failure?: NatsFailure;
+  cached?: boolean;           // Skipped because of a remembered denial
+}
+
+interface FallbackResult {
+  hop: number;                // The hop that answered (or parked the message)
+  step: FallbackStep;
+  response?: string;          // Absent for "publish" steps
+  attempts: HopAttempt[];
 }
 
 class NATSPublisher {
-  private nc: NatsConnection | null = null;
+  private connections = new Map<string, NatsConnection>();
+  private routeCaches = new Map<string, RouteCache>();
   private config: PublishConfig;
+  private steps: FallbackStep[];
 
-  constructor(config: PublishConfig) {
+  // Messages are encoded with codec and labelled with its Content-Type; replies are decoded by theirs
+  constructor(config: PublishConfig, private payloads: CodecRegistry, private codec: PayloadCodec) {
     this.config = config;
+    this.steps = getFallbackChain(config.chain);
   }
 
   async connect(): Promise<void> {
+    // Connect to the first hop's cluster up front; later hops connect on demand
+    await this.connectionFor(this.steps[0].cluster);
+  }
+
+  private async connectionFor(clusterName: string): Promise<NatsConnection> {
+    const existing = this.connections.get(clusterName);
+    if (existing && !existing.isClosed()) {
+      return existing;
+    }
+
+    const cluster = getCluster(clusterName);
     try {
-      const opts: ConnectionOptions = {
-        servers: [this.config.user.server],
-        tls: {
-          cert: readFileSync(this.config.user.certFile),
-          key: readFileSync(this.config.user.keyFile),
-          ca: readFileSync(this.config.user.caFile)
-        },
+      const opts: ConnectionOptions = buildConnectionOptions(this.config.user, cluster, {
         name: `${this.config.user.name}_publisher_${this.config.scenario}`,
-        timeout: 5000,
         reconnect: true,
         maxReconnectAttempts: 5,
         verbose: false,
         debug: false
-      };
+      });
 
-      console.log(`🔌 Connecting to NATS server as user: ${this.config.user.name}`);
-      this.nc = await connect(opts);
+      console.log(`🔌 Connecting to ${cluster.name} cluster as user: ${this.config.user.name}`);
+      const nc = await connect(opts);
+      this.connections.set(clusterName, nc);
+      this.routeCaches.set(clusterName, RouteCache.forConnection(nc, this.config.routeCacheTtl));
       
-      console.log(`✅ Connected to NATS server: ${this.nc.getServer()}`);
+      console.log(`✅ Connected to NATS server: ${nc.getServer()}`);
+      emit({ event: "connected", user: this.config.user.id, cluster: cluster.name, url: cluster.url });
       
       // Monitor connection status
-      this.monitorConnection();
+      this.monitorConnection(nc, clusterName);
+      return nc;
       
     } catch (error) {
-      console.error(`❌ Failed to connect to NATS server:`, error);
+      const failure = classifyNatsError(error);
+      console.error(`❌ Failed to connect to ${cluster.name} cluster:`, failure.message);
+      emit({ event: "connect_failed", user: this.config.user.id, cluster: cluster.name, failure: failure.kind, message: failure.message });
       throw error;
     }
   }
 
-  private monitorConnection(): void {
-    if (!this.nc) return;
-
+  private monitorConnection(nc: NatsConnection, clusterName: string): void {
     // Monitor connection status
     (async () => {
-      for await (const status of this.nc!.status()) {
+      for await (const status of nc.status()) {
         switch (status.type) {
           case 'disconnect':
-            console.log(`⚠️  Disconnected from server: ${status.data}`);
+            console.log(`⚠️  [${clusterName}] Disconnected from server: ${status.data}`);
             break;
           case 'reconnect':
-            console.log(`🔄 Reconnected to server: ${status.data}`);
+            console.log(`🔄 [${clusterName}] Reconnected to server: ${status.data} (route cache cleared)`);
             break;
           case 'error':
-            console.log(`‼️  Connection error: ${status.data}`);
+            console.log(`‼️  [${clusterName}] Connection error: ${status.data}`);
             break;
         }
       }
     })();
   }
 
-  async publishWithFallback(message: string): Promise<void> {
-    if (!this.nc) {
+  async publishWithFallback(message: string): Promise<FallbackResult> {
+    if (this.connections.size === 0) {
       throw new Error('Not connected to NATS server');
     }
 
     const timestamp = new Date().toISOString();
-    const messageData = JSON.stringify({
-      message,
-      user: this.config.user.name,
-      scenario: this.config.scenario,
-      timestamp,
-      attempt: 1
-    });
+    // Encoded once: a message the codec rejects fails here, not on every hop
+    const payload = this.codec.encode(this.codec.fromText(message));
 
     console.log(`📤 Attempting to publish message...`);
     console.log(`   📋 Message: ${message}`);
+    console.log(`   🧬 Content-Type: ${this.codec.contentType} (${payload.length} bytes)`);
     console.log(`   👤 User: ${this.config.user.name}`);
+    console.log(`   🔗 Chain: ${this.config.chain} (${this.steps.length} hops)`);
     console.log(`   🕒 Timestamp: ${timestamp}`);
     console.log('');
 
-    // First, try the primary subject
-    console.log(`🎯 Attempt 1: Trying primary subject "${this.config.primarySubject}"`);
-    
-    try {
-      const response = await this.nc.request(
-        this.config.primarySubject,
-        messageData,
-        { timeout: this.config.requestTimeout }
-      );
-
-      const responseData = response.string();
-      console.log(`✅ SUCCESS: Primary subject responded!`);
-      console.log(`   📍 Subject: ${this.config.primarySubject}`);
-      console.log(`   📄 Response: ${responseData}`);
-      console.log(`   ⚡ Response time: < ${this.config.requestTimeout}ms`);
-      console.log('');
-      
-      return; // Success, no need for fallback
+    const attempts: HopAttempt[] = [];
+
+    for (const [index, step] of this.steps.entries()) {
+      const hop = index + 1;
+      const timeout = step.timeout ?? DEFAULT_STEP_TIMEOUT;
+      const mode = step.mode ?? 'request';
+      const envelope = withContentType(this.codec, envelopeHeaders({
+        user: this.config.user.name,
+        cluster: step.cluster,
+        timestamp,
+        hop,
+        originalSubject: this.steps[0].subject,
+        scenario: this.config.scenario
+      }));
+
+      const denial = this.routeCaches.get(step.cluster)?.lookup(step.subject);
+      if (denial && hop < this.steps.length && shouldAdvance(step.advanceOn, denial.failure)) {
+        const expiresIn = Math.ceil((denial.expiresAt - Date.now()) / 1000);
+        console.log(`⏭️  Hop ${hop}/${this.steps.length}: skipping "${step.subject}" on ${step.cluster} cluster - denial cached (expires in ${expiresIn}s)`);
+        console.log('');
+        attempts.push({ hop, step, latencyMs: 0, failure: denial.failure, cached: true });
+        emit({ event: "fallback", user: this.config.user.id, cluster: step.cluster, subject: step.subject, reason: "cached denial" });
+        continue;
+      }
 
-    } catch (error) {
-      const errorMsg = error.message || error.toString();
-      console.log(`⚠️  Primary subject failed: ${errorMsg}`);
-      
-      if (errorMsg.includes('no responders')) {
-        console.log(`   🔄 Reason: No active subscribers on ${this.config.primarySubject}`);
-      } else if (errorMsg.includes('timeout')) {
-        console.log(`   🔄 Reason: Request timeout (${this.config.requestTimeout}ms)`);
-      } else if (errorMsg.includes('Permissions Violation')) {
-        console.log(`   🚫 Reason: Permission denied - user lacks publish access`);
-      } else if (errorMsg.includes('503')) {
-        console.log(`   🚫 Reason: NoResponder Error`);
-      } else {
-        console.log(`   🔄 Reason: ${errorMsg}`);
+      console.log(`🎯 Hop ${hop}/${this.steps.length}: ${mode} "${step.subject}" on ${step.cluster} cluster`);
+      const startTime = Date.now();
+
+      try {
+        const nc = await this.connectionFor(step.cluster);
+        let response: string | undefined;
+
+        if (mode === 'publish') {
+          const verification = await verifyPublish(nc, step.subject, { cluster: step.cluster, user: this.config.user.name }, { payload, headers: envelope });
+          if (verification.verdict === 'denied') {
+            throw new PermissionDeniedError('publish', step.subject, step.cluster, this.config.user.name, verification.serverMessage);
+          }
+        } else {
+          const reply = await nc.request(step.subject, payload, { timeout, headers: envelope });
+          response = this.payloads.describe(reply.data, reply.headers);
+        }
+
+        const latencyMs = Date.now() - startTime;
+        attempts.push({ hop, step, latencyMs });
+        if (mode === 'publish') {
+          emit({ event: "published", user: this.config.user.id, cluster: step.cluster, subject: step.subject });
+        } else {
+          emit({ event: "request_succeeded", user: this.config.user.id, cluster: step.cluster, subject: step.subject, latencyMs, hop });
+        }
+
+        if (mode === 'publish') {
+          console.log(`📥 PARKED: Message published to ${step.subject} for later handling`);
+        } else {
+          console.log(`✅ SUCCESS: Hop ${hop} responded!`);
+          console.log(`   📄 Response: ${response}`);
+        }
+        console.log(`   📍 Subject: ${step.subject} (${step.cluster} cluster)`);
+        console.log(`   ⚡ Response time: ${latencyMs}ms`);
+        if (hop > 1) {
+          console.log(`   📝 Note: Message was routed via fallback hop ${hop}`);
+        }
+        console.log('');
+
+        return { hop, step, response, attempts };
+
+      } catch (error) {
+        const failure = classifyNatsError(error);
+        attempts.push({ hop, step, latencyMs: Date.now() - startTime, failure });
+        this.routeCaches.get(step.cluster)?.recordFailure(step.subject, failure);
+        emit({ event: "request_failed", user: this.config.user.id, cluster: step.cluster, subject: step.subject, failure: failure.kind, message: failure.message, hop });
+
+        console.log(`⚠️  Hop ${hop} failed: ${failure.message}`);
+        console.log(`   ${describeFailure(failure, step.subject, timeout)}`);
+
+        if (hop < this.steps.length && !shouldAdvance(step.advanceOn, failure)) {
+          console.log(`   ⛔ ${failureLabel(failure)} is not an advance condition for this hop - stopping`);
+          console.log('');
+          throw new FallbackExhaustedError(this.toFailedAttempts(attempts), true);
+        }
+        if (hop < this.steps.length) {
+          emit({ event: "fallback", user: this.config.user.id, cluster: step.cluster, subject: step.subject, reason: failure.kind });
+        }
+        console.log('');
       }
-      console.log('');
     }
 
-    // Fallback to alternative subject
-    console.log(`🎯 Attempt 2: Trying fallback subject "${this.config.fallbackSubject}"`);
-    
-    const fallbackMessageData = JSON.stringify({
-      message,
-      user: this.config.user.name,
-      scenario: this.config.scenario,
-      timestamp,
-      attempt: 2,
-      fallback: true,
-      originalSubject: this.config.primarySubject
-    });
+    console.log(`❌ FAILED: Every hop in the ${this.config.chain} chain failed`);
+    console.log('');
+    throw new FallbackExhaustedError(this.toFailedAttempts(attempts), false);
+  }
+
+  private toFailedAttempts(attempts: HopAttempt[]) {
+    return attempts
+      .filter(a => a.failure)
+      .map(a => ({ subject: a.step.subject, cluster: a.step.cluster, failure: a.failure! }));
+  }
+
+  showRouteCache(): void {
+    console.log('🗺️  Cached route denials:');
+    let count = 0;
+    for (const [clusterName, cache] of this.routeCaches) {
+      for (const denial of cache.entries()) {
+        const expiresIn = Math.ceil((denial.expiresAt - Date.now()) / 1000);
+        console.log(`   🚫 ${denial.pattern} @ ${clusterName} (expires in ${expiresIn}s)`);
+        count++;
+      }
+    }
+    if (count === 0) {
+      console.log('   (none)');
+    }
+    console.log('');
+  }
+
+  clearRouteCache(): void {
+    this.routeCaches.forEach(cache => cache.clear());
+    console.log('🧹 Route cache cleared - next message tries every hop again');
+    console.log('');
+  }
+
+  // Scatter-gather: one request, every reply within the window (or until maxResponders answered).
+  // Meant for broad.rpc.> style subjects where every subscriber answers; the reply inbox
+  // is replicated over the leaf link, so responders on the other cluster are collected too
+  async gather(subject: string, message: string, clusterName: string = this.steps[0].cluster, opts: GatherOptions = {}): Promise<GatherResult> {
+    const nc = await this.connectionFor(clusterName);
+    const windowMs = opts.windowMs ?? DEFAULT_GATHER_WINDOW;
+    const payload = this.codec.encode(this.codec.fromText(message));
+    const envelope = withContentType(this.codec, envelopeHeaders({ user: this.config.user.name, cluster: clusterName, scenario: this.config.scenario }));
+
+    console.log(`📡 Gathering replies on ${subject} @ ${clusterName} cluster...`);
+    console.log(`   ⏱️  Window: ${windowMs}ms${opts.maxResponders ? `, or until ${opts.maxResponders} responder(s) answer` : ''}`);
 
     try {
-      const response = await this.nc.request(
-        this.config.fallbackSubject,
-        fallbackMessageData,
-        { timeout: this.config.requestTimeout }
-      );
-
-      const responseData = response.string();
-      console.log(`✅ SUCCESS: Fallback subject responded!`);
-      console.log(`   📍 Subject: ${this.config.fallbackSubject}`);
-      console.log(`   📄 Response: ${responseData}`);
-      console.log(`   ⚡ Response time: < ${this.config.requestTimeout}ms`);
-      console.log(`   📝 Note: Message was routed via fallback`);
+      const result = await scatterGather(nc, subject, payload, clusterName, { ...opts, headers: envelope, payloads: this.payloads });
+
+      for (const reply of result.replies) {
+        emit({
+          event: "reply_received", user: this.config.user.id, cluster: clusterName, subject, responder: reply.responder,
+          respondedFrom: reply.respondedFrom, latencyMs: reply.latencyMs, error: reply.error?.message
+        });
+      }
+      emit({
+        event: "gather_completed", user: this.config.user.id, cluster: clusterName, subject,
+        responders: result.replies.length, elapsedMs: result.elapsedMs, stoppedBy: result.stoppedBy
+      });
+
+      console.log(`${result.replies.length > 0 ? '✅' : '⚠️ '} ${result.replies.length} repl${result.replies.length === 1 ? 'y' : 'ies'} in ${result.elapsedMs}ms (${result.stoppedBy === 'responders' ? 'responder limit reached' : 'window closed'})`);
+      for (const reply of result.replies) {
+        const from = reply.respondedFrom ?? 'unknown';
+        const crossed = reply.respondedFrom && reply.respondedFrom !== clusterName ? ' 🌉' : '';
+        const outcome = reply.error ? ` ❌ error ${reply.error.code}: ${reply.error.message}` : '';
+        console.log(`   👤 ${reply.responder.padEnd(10)}🏠 ${from.padEnd(8)}⚡ ${String(reply.latencyMs).padStart(5)}ms${crossed}${outcome}`);
+      }
       console.log('');
+      return result;
 
     } catch (error) {
-      const errorMsg = error.message || error.toString();
-      console.log(`❌ FAILED: Fallback subject also failed!`);
-      console.log(`   📍 Subject: ${this.config.fallbackSubject}`);
-      
-      if (errorMsg.includes('no responders')) {
-        console.log(`   🔄 Reason: No active subscribers on ${this.config.fallbackSubject}`);
-      } else if (errorMsg.includes('timeout')) {
-        console.log(`   🔄 Reason: Request timeout (${this.config.requestTimeout}ms)`);
-      } else if (errorMsg.includes('Permissions Violation') || errorMsg.includes('503')) {
-        console.log(`   🚫 Reason: Permission denied - user lacks publish access`);
-      } else {
-        console.log(`   🔄 Reason: ${errorMsg}`);
-      }
-      console.log(`   ⚠️  Both primary and fallback subjects are unavailable/unauthorized`);
+      const failure = classifyNatsError(error);
+      console.log(`❌ Gather failed: ${failure.message}`);
+      console.log(`   ${describeFailure(failure, subject, windowMs)}`);
       console.log('');
-      throw new Error(`Both primary (${this.config.primarySubject}) and fallback (${this.config.fallbackSubject}) subjects failed: ${errorMsg}`);
+      emit({ event: "request_failed", user: this.config.user.id, cluster: clusterName, subject, failure: failure.kind, message: failure.message });
+      throw error;
     }
   }
 
   async publishSimple(subject: string, message: string): Promise<void> {
-    if (!this.nc) {
+    const nc = this.connections.get(this.steps[0].cluster);
+    if (!nc) {
       throw new Error('Not connected to NATS server');
     }
 
-    const timestamp = new Date().toISOString();
-    const messageData = JSON.stringify({
-      message,
-      user: this.config.user.name,
-      scenario: this.config.scenario,
-      timestamp,
-      publishOnly: true
-    });
+    const payload = this.codec.encode(this.codec.fromText(message));
+    const envelope = withContentType(this.codec, envelopeHeaders({ user: this.config.user.name, cluster: this.steps[0].cluster, scenario: this.config.scenario }));
 
     console.log(`📤 Publishing message to ${subject}...`);
     
     try {
-      this.nc.publish(subject, messageData);
+      nc.publish(subject, payload, { headers: stampMessageId(undefined, envelope) });
       console.log(`✅ Message published successfully`);
       console.log(`   📍 Subject: ${subject}`);
       console.log(`   📄 Message: ${message}`);
@@ -217,59 +325,47 @@ class NATSPublisher {
   }
 
   async close(): Promise<void> {
-    if (this.nc) {
+    for (const [clusterName, nc] of this.connections) {
       try {
-        await this.nc.drain();
-        console.log('✅ Connection closed gracefully');
+        await nc.drain();
+        console.log(`✅ Connection to ${clusterName} cluster closed gracefully`);
       } catch (error) {
-        console.error('❌ Error closing connection:', error);
+        console.error(`❌ Error closing ${clusterName} connection:`, error);
       }
     }
+    this.connections.clear();
+    this.routeCaches.clear();
   }
 }
 
 // Configuration for different scenarios
 const scenarios: Record<string, PublishConfig> = {
   'scenario1': {
-    user: {
-      name: 'Bar',
-      certFile: './certs/bar-cert.pem',
-      keyFile: './certs/bar-key.pem',
-      caFile: './certs/ca-cert.pem',
-      server: 'tls://localhost:4222'
-    },
-    primarySubject: 'rpc.hello.world',
-    fallbackSubject: 'broad.rpc.hello.world',
-    scenario: 'Scenario 1 - Bar user publishing with fallback',
-    requestTimeout: 2000
+    user: getUser('bar'),
+    chain: 'hello-world',
+    scenario: 'Scenario 1 - Bar user publishing with fallback'
   },
   'scenario2': {
-    user: {
-      name: 'Foo',
-      certFile: './certs/foo-cert.pem',
-      keyFile: './certs/foo-key.pem',
-      caFile: './certs/ca-cert.pem',
-      server: 'tls://localhost:4222'
-    },
-    primarySubject: 'rpc.hello.world',
-    fallbackSubject: 'broad.rpc.hello.world',
-    scenario: 'Scenario 2 - Foo user publishing',
-    requestTimeout: 2000
+    user: getUser('foo'),
+    chain: 'hello-world',
+    scenario: 'Scenario 2 - Foo user publishing'
   }
 };
 
-async function runInteractiveMode(publisher: NATSPublisher, config: PublishConfig) {
+async function runInteractiveMode(publisher: NATSPublisher, config: PublishConfig, gather: GatherOptions) {
   console.log('🔄 Interactive Mode - Enter messages to publish');
   console.log('💡 Commands:');
   console.log('   - Type a message and press Enter to use request/fallback pattern');
   console.log('   - Type "simple:<subject>:<message>" to publish without request');
+  console.log('   - Type "gather:<subject>[@<cluster>]:<message>" to collect every reply (scatter-gather)');
+  console.log('   - Type "routes" to show cached denials, "routes:clear" to forget them');
   console.log('   - Type "exit" or "quit" to stop');
   console.log('');
 
   const readline = require('readline');
   const rl = readline.createInterface({
     input: process.stdin,
-    output: process.stdout
+    output: isJsonMode() ? process.stderr : process.stdout  // Keep stdout for NDJSON
   });
   
   console.log('💬 Enter message (or "exit" to quit):');
@@ -282,6 +378,16 @@ async function runInteractiveMode(publisher: NATSPublisher, config: PublishConfi
       break;
     }
 
+    if (input === 'routes') {
+      publisher.showRouteCache();
+      continue;
+    }
+
+    if (input === 'routes:clear') {
+      publisher.clearRouteCache();
+      continue;
+    }
+
     if (input.startsWith('simple:')) {
       // Parse simple publish command: simple:subject:message
       const parts = input.split(':');
@@ -300,6 +406,24 @@ async function runInteractiveMode(publisher: NATSPublisher, config: PublishConfi
       continue;
     }
 
+    if (input.startsWith('gather:')) {
+      // Parse gather command: gather:subject[@cluster]:message
+      const parts = input.split(':');
+      if (parts.length >= 3 && parts[1].length > 0) {
+        const [subject, cluster] = parts[1].split('@');
+        const message = parts.slice(2).join(':');
+
+        try {
+          await publisher.gather(subject, message, cluster || undefined, gather);
+        } catch (error) {
+          console.error('❌ Gather failed:', error.message);
+        }
+      } else {
+        console.log('❌ Invalid gather command format. Use: gather:<subject>[@<cluster>]:<message>');
+      }
+      continue;
+    }
+
     if (input.length > 0) {
       try {
         await publisher.publishWithFallback(input);
@@ -314,31 +438,101 @@ async function runInteractiveMode(publisher: NATSPublisher, config: PublishConfi
   rl.close();
 }
 
+function parseArgs(args: string[]): PublisherArgs {
+  const parsed: PublisherArgs = { message: 'Test message', interactive: false, gather: {} };
+  const positional: string[] = [];
+  const value = (flag: string, i: number) => {
+    if (args[i] === undefined || args[i].startsWith('--')) {
+      throw new Error(`${flag} needs a value`);
+    }
+    return args[i];
+  };
+  const number = (flag: string, i: number) => {
+    const n = Number(value(flag, i));
+    if (!Number.isInteger(n) || n < 1) {
+      throw new Error(`${flag} needs a positive integer`);
+    }
+    return n;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--interactive':
+        parsed.interactive = true;
+        break;
+      case '--gather':
+        parsed.gatherSubject = value('--gather', ++i);
+        break;
+      case '--cluster':
+        parsed.gatherCluster = value('--cluster', ++i);
+        break;
+      case '--window':
+        parsed.gather.windowMs = number('--window', ++i);
+        break;
+      case '--responders':
+        parsed.gather.maxResponders = number('--responders', ++i);
+        break;
+      default:
+        positional.push(args[i]);
+    }
+  }
+
+  parsed.scenario = positional[0];
+  parsed.message = positional[1] ?? parsed.message;
+  return parsed;
+}
+
 async function main() {
-  const args = process.argv.slice(2);
+  let args = initEventOutput("publisher", process.argv.slice(2));
+  // Typed messages go out as they are unless --codec says otherwise
+  let codecs: CodecArgs;
+  try {
+    codecs = parseCodecArgs(args, 'raw');
+    args = codecs.args;
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
   
   if (args.length === 0) {
     console.log('NATS Publisher POC');
     console.log('==================');
     console.log('');
-    console.log('Usage: npx tsx publisher.ts <scenario> [message] [--interactive]');
+    console.log('Usage: npx tsx publisher.ts <scenario> [message] [--interactive] [--gather <subject>] [--codec <codec>] [--json]');
     console.log('');
     console.log('Available scenarios:');
-    console.log('  scenario1  - Bar user (TLS cert: bar-cert.pem) trying rpc.hello.world then broad.rpc.hello.world');
-    console.log('  scenario2  - Foo user (TLS cert: foo-cert.pem) trying rpc.hello.world then broad.rpc.hello.world');
+    console.log('  scenario1  - Bar user (TLS cert: bar-cert.pem) walking the hello-world fallback chain');
+    console.log('  scenario2  - Foo user (TLS cert: foo-cert.pem) walking the hello-world fallback chain');
     console.log('');
     console.log('Examples:');
     console.log('  npx tsx publisher.ts scenario1 "Hello World"');
     console.log('  npx tsx publisher.ts scenario2 --interactive');
     console.log('  npx tsx publisher.ts scenario1');
+    console.log('  npx tsx publisher.ts scenario2 "Anyone there?" --gather broad.rpc.hello.world --window 3000');
+    console.log('  npx tsx publisher.ts scenario1 "Hi" --gather broad.rpc.hello.world --cluster leaf --responders 2');
+    console.log(`  npx tsx publisher.ts scenario2 '{"message":"hi","sequence":1}' --codec protobuf --proto-type poc.Greeting`);
     console.log('');
     console.log('Options:');
     console.log('  --interactive  Start in interactive mode for multiple messages');
+    console.log('  --gather       Send one request and collect every reply instead of walking the chain');
+    console.log(`  --cluster      Cluster to gather on (default: the chain's first hop)`);
+    console.log(`  --window       Gather window in ms (default ${DEFAULT_GATHER_WINDOW})`);
+    console.log('  --responders   Stop gathering once this many responders have answered');
+    CODEC_USAGE.forEach(line => console.log(line));
+    console.log('  --json         Emit NDJSON events on stdout (human output goes to stderr)');
     console.log('');
     process.exit(1);
   }
 
-  const scenarioName = args[0];
+  let options: PublisherArgs;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+
+  const scenarioName = options.scenario!;
   const config = scenarios[scenarioName];
 
   if (!config) {
@@ -347,30 +541,42 @@ async function main() {
     process.exit(1);
   }
 
-  const isInteractive = args.includes('--interactive');
-  const message = args.find(arg => arg !== scenarioName && arg !== '--interactive') || 'Test message';
+  const isInteractive = options.interactive;
+  const message = options.message;
 
   console.log('🚀 Starting NATS Publisher POC');
   console.log('==============================');
   console.log(`📋 Scenario: ${config.scenario}`);
   console.log(`👤 User: ${config.user.name} (${config.user.certFile})`);
-  console.log(`🎯 Primary Subject: ${config.primarySubject}`);
-  console.log(`🔄 Fallback Subject: ${config.fallbackSubject}`);
-  console.log(`⏱️  Request Timeout: ${config.requestTimeout}ms`);
+  console.log(`🔗 Fallback Chain: ${config.chain}`);
+  getFallbackChain(config.chain).forEach((step, index) => {
+    const advanceOn = step.advanceOn ? (step.advanceOn.join(', ') || 'never') : 'default';
+    const wait = step.mode === 'publish' ? 'no reply' : `${step.timeout ?? DEFAULT_STEP_TIMEOUT}ms`;
+    console.log(`   ${index + 1}. ${step.mode ?? 'request'} ${step.subject} @ ${step.cluster} (${wait}, advance on: ${advanceOn})`);
+  });
+  if (options.gatherSubject) {
+    console.log(`📡 Scatter-gather: ${options.gatherSubject} @ ${options.gatherCluster ?? getFallbackChain(config.chain)[0].cluster}`);
+  }
+  console.log(`🧬 Payload codec: ${codecs.codec.contentType}`);
   console.log(`🎮 Interactive Mode: ${isInteractive ? 'Yes' : 'No'}`);
   console.log('');
 
-  const publisher = new NATSPublisher(config);
+  const publisher = new NATSPublisher(config, codecs.registry, codecs.codec);
 
   try {
     await publisher.connect();
 
     if (isInteractive) {
-      await runInteractiveMode(publisher, config);
+      await runInteractiveMode(publisher, config, options.gather);
+    } else if (options.gatherSubject) {
+      console.log(`📤 Gathering replies for single message: "${message}"`);
+      console.log('');
+      await publisher.gather(options.gatherSubject, message, options.gatherCluster, options.gather);
     } else {
       console.log(`📤 Publishing single message: "${message}"`);
       console.log('');
-      await publisher.publishWithFallback(message);
+      const result = await publisher.publishWithFallback(message);
+      console.log(`🏁 Answered by hop ${result.hop}: ${result.step.subject} on ${result.step.cluster} cluster (${result.attempts.length} attempt(s))`);
     }
 
   } catch (error) {
@@ -0,0 +1,399 @@
+#!/usr/bin/env node
+
+// NATS Queue Group Test
+// Runs several request handlers at once and checks that every request gets exactly one reply:
+// on main, on the leaf, and with the group split across the leaf link, where the server
+// prefers group members on the requester's own cluster
+
+import { connect, createInbox, NatsConnection } from "nats";
+import { spawn, ChildProcess } from "child_process";
+import { getUser, getCluster, listClusters, buildConnectionOptions } from "./nats-topology.js";
+import { JSON_FLAG, waitForReady } from "./nats-events.js";
+import { ClusterHarness, EMBEDDED_FLAG } from "./nats-server-harness.js";
+import { envelopeHeaders, readEnvelope, describeOrigin } from "./nats-envelope.js";
+
+interface Endpoint {
+  user: string;
+  cluster: string;
+}
+
+interface QueueGroupCase {
+  name: string;
+  description: string;
+  handlers: Endpoint[];
+  queued: boolean;              // false starts the handlers with --no-queue
+  requester: Endpoint;
+  subject: string;
+  expectedReplies: number;      // Per request
+  expectedCluster?: string;     // Every reply must come from handlers on this cluster
+}
+
+interface CaseResult {
+  testCase: QueueGroupCase;
+  replies: number[];            // Reply count per request
+  responders: Map<string, number>;   // "Foo@main" -> requests answered
+  strayClusters: string[];      // Clusters replies came from besides expectedCluster
+  passed: boolean;
+  error?: string;
+}
+
+const QUEUE_GROUP_CASES: QueueGroupCase[] = [
+  {
+    name: "no-queue-baseline",
+    description: "Foo and MMM on main without a queue group: every handler answers",
+    handlers: [{ user: "foo", cluster: "main" }, { user: "mmm", cluster: "main" }],
+    queued: false,
+    requester: { user: "foo", cluster: "main" },
+    subject: "rpc.hello.world",
+    expectedReplies: 2
+  },
+  {
+    name: "main",
+    description: "Foo and MMM on main in one queue group",
+    handlers: [{ user: "foo", cluster: "main" }, { user: "mmm", cluster: "main" }],
+    queued: true,
+    requester: { user: "foo", cluster: "main" },
+    subject: "rpc.hello.world",
+    expectedReplies: 1
+  },
+  {
+    name: "leaf",
+    description: "Foo and MMM on the leaf in one queue group, Bar requests on the leaf",
+    handlers: [{ user: "foo", cluster: "leaf" }, { user: "mmm", cluster: "leaf" }],
+    queued: true,
+    requester: { user: "bar", cluster: "leaf" },
+    subject: "rpc.hello.world",
+    expectedReplies: 1
+  },
+  {
+    name: "across-from-leaf",
+    description: "Foo on main, MMM on the leaf; Bar requests on the leaf and the leaf member answers",
+    handlers: [{ user: "foo", cluster: "main" }, { user: "mmm", cluster: "leaf" }],
+    queued: true,
+    requester: { user: "bar", cluster: "leaf" },
+    subject: "rpc.hello.world",
+    expectedReplies: 1,
+    expectedCluster: "leaf"
+  },
+  {
+    name: "across-from-main",
+    description: "Same group; MMM requests on main and the main member answers",
+    handlers: [{ user: "foo", cluster: "main" }, { user: "mmm", cluster: "leaf" }],
+    queued: true,
+    requester: { user: "mmm", cluster: "main" },
+    subject: "rpc.hello.world",
+    expectedReplies: 1,
+    expectedCluster: "main"
+  },
+  {
+    name: "remote-only",
+    description: "Only Foo on main; Bar requests on the leaf and the group answers across the link",
+    handlers: [{ user: "foo", cluster: "main" }],
+    queued: true,
+    requester: { user: "bar", cluster: "leaf" },
+    subject: "rpc.hello.world",
+    expectedReplies: 1,
+    expectedCluster: "main"
+  },
+  {
+    name: "broad-fan-out",
+    description: "broad.rpc.> is not queued: Foo and MMM on main both answer",
+    handlers: [{ user: "foo", cluster: "main" }, { user: "mmm", cluster: "main" }],
+    queued: true,
+    requester: { user: "foo", cluster: "main" },
+    subject: "broad.rpc.hello.world",
+    expectedReplies: 2
+  }
+];
+
+const DEFAULT_REQUESTS = 20;
+const REPLY_TIMEOUT_MS = 5000;
+// How long to keep listening after every request has its first reply, for duplicates
+const DUPLICATE_SETTLE_MS = 1000;
+const STOP_TIMEOUT_MS = 5000;
+const INTEREST_SETTLE_MS = 1000;
+
+function label(endpoint: Endpoint): string {
+  return `${getUser(endpoint.user).name}@${endpoint.cluster}`;
+}
+
+class QueueGroupTest {
+  private results: CaseResult[] = [];
+  private handlers: ChildProcess[] = [];
+  private harness?: ClusterHarness;
+
+  constructor(private requests: number, private verbose = false, private embedded = false) {
+    process.on('SIGINT', () => this.stopHandlers());
+    process.on('SIGTERM', () => this.stopHandlers());
+  }
+
+  async run(cases: QueueGroupCase[]): Promise<boolean> {
+    console.log("🚀 NATS Queue Group Test");
+    console.log("========================");
+    console.log(`${this.requests} request(s) per case; each must get exactly the expected number of replies\n`);
+
+    try {
+      if (this.embedded) {
+        console.log("🏗️  Starting embedded NATS clusters...");
+        this.harness = await ClusterHarness.start({ echoLogs: this.verbose });
+        for (const line of this.harness.describe()) {
+          console.log(`   ✅ ${line}`);
+        }
+        console.log("");
+      }
+
+      for (const testCase of cases) {
+        this.results.push(await this.runCase(testCase));
+      }
+      return this.showSummary();
+    } catch (error) {
+      console.error(`❌ Test failed: ${error.message}`);
+      this.harness?.printLogTail();
+      return false;
+    } finally {
+      await this.stopHandlers();
+      await this.harness?.stop();
+    }
+  }
+
+  private async runCase(testCase: QueueGroupCase): Promise<CaseResult> {
+    console.log(`🧪 ${testCase.name}: ${testCase.description}`);
+    const result: CaseResult = { testCase, replies: [], responders: new Map(), strayClusters: [], passed: false };
+
+    try {
+      for (const handler of testCase.handlers) {
+        await this.startHandler(handler, testCase.queued);
+      }
+      await this.waitForRemoteInterest(testCase);
+
+      await this.sendRequests(testCase, result);
+      this.checkResult(result);
+    } catch (error) {
+      result.error = error.message;
+      console.log(`   ❌ ${error.message}`);
+    } finally {
+      await this.stopHandlers();
+    }
+
+    this.showCase(result);
+    return result;
+  }
+
+  private async startHandler(handler: Endpoint, queued: boolean): Promise<void> {
+    const args = ["tsx", "request-reply-leaf-subscriber.ts", handler.user, handler.cluster, JSON_FLAG];
+    if (!queued) {
+      args.push("--no-queue");
+    }
+    const child = spawn("npx", args, { stdio: ["pipe", "pipe", "pipe"] });
+    this.handlers.push(child);
+
+    // In --json mode the handler's console output goes to stderr; keep it for diagnostics
+    let output = "";
+    child.stderr?.on('data', (data) => {
+      output += data.toString();
+      if (this.verbose) {
+        console.log(`   📋 [${label(handler)}] ${data.toString().trim()}`);
+      }
+    });
+
+    try {
+      await waitForReady(child.stdout!, label(handler));
+    } catch (error) {
+      for (const line of output.trim().split('\n').slice(-10)) {
+        console.log(`   📋 ${label(handler)}: ${line}`);
+      }
+      throw error;
+    }
+    console.log(`   🎧 ${label(handler)} ready${queued ? "" : " (no queue group)"}`);
+  }
+
+  // Queue interest crosses the leaf link asynchronously: requests sent before it arrives would
+  // see only the local members, and local preference would pass without being tested.
+  // With no local member a probe request tells when it is there; otherwise give it time
+  private async waitForRemoteInterest(testCase: QueueGroupCase): Promise<void> {
+    if (testCase.handlers.every(h => h.cluster === testCase.requester.cluster)) {
+      return;
+    }
+    if (testCase.handlers.some(h => h.cluster === testCase.requester.cluster)) {
+      await new Promise(resolve => setTimeout(resolve, INTEREST_SETTLE_MS));
+      return;
+    }
+    const nc = await this.connectRequester(testCase.requester);
+    try {
+      const deadline = Date.now() + REPLY_TIMEOUT_MS;
+      while (true) {
+        try {
+          await nc.request(testCase.subject, "interest probe", { timeout: 500 });
+          return;
+        } catch (error) {
+          if (Date.now() > deadline) {
+            throw new Error(`No handler reachable from ${label(testCase.requester)} on ${testCase.subject}: ${error.message}`);
+          }
+          await new Promise(resolve => setTimeout(resolve, 250));
+        }
+      }
+    } finally {
+      await nc.close();
+    }
+  }
+
+  private connectRequester(requester: Endpoint): Promise<NatsConnection> {
+    return connect(buildConnectionOptions(getUser(requester.user), getCluster(requester.cluster), {
+      name: `queue_group_test_${requester.user}_${requester.cluster}`
+    }));
+  }
+
+  // Every request gets its own reply subject under one inbox, so duplicates are counted
+  // instead of being dropped the way nc.request() drops everything after the first reply
+  private async sendRequests(testCase: QueueGroupCase, result: CaseResult): Promise<void> {
+    const user = getUser(testCase.requester.user);
+    const nc = await this.connectRequester(testCase.requester);
+    const inbox = createInbox();
+    result.replies = new Array(this.requests).fill(0);
+
+    try {
+      const sub = nc.subscribe(`${inbox}.>`, {
+        callback: (err, msg) => {
+          if (err) return;
+          const index = Number(msg.subject.slice(inbox.length + 1));
+          result.replies[index]++;
+          // Error replies carry the responder's envelope too
+          const responder = describeOrigin(readEnvelope(msg.headers));
+          result.responders.set(responder, (result.responders.get(responder) ?? 0) + 1);
+        }
+      });
+      await nc.flush();
+
+      for (let i = 0; i < this.requests; i++) {
+        nc.publish(testCase.subject, `Queue group test ${testCase.name} #${i}`, {
+          reply: `${inbox}.${i}`,
+          headers: envelopeHeaders({ user: user.name, cluster: testCase.requester.cluster })
+        });
+      }
+      await nc.flush();
+
+      const deadline = Date.now() + REPLY_TIMEOUT_MS;
+      while (result.replies.some(n => n === 0) && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+      await new Promise(resolve => setTimeout(resolve, DUPLICATE_SETTLE_MS));
+      sub.unsubscribe();
+    } finally {
+      await nc.close();
+    }
+  }
+
+  private checkResult(result: CaseResult) {
+    const { expectedReplies, expectedCluster } = result.testCase;
+    const clusters = [...result.responders.keys()].map(r => r.slice(r.lastIndexOf("@") + 1));
+    result.strayClusters = expectedCluster ? [...new Set(clusters.filter(c => c !== expectedCluster))] : [];
+    result.passed = result.replies.every(n => n === expectedReplies) && result.strayClusters.length === 0;
+  }
+
+  private showCase(result: CaseResult) {
+    if (result.error) {
+      console.log("");
+      return;
+    }
+    const { expectedReplies, expectedCluster } = result.testCase;
+    const histogram = new Map<number, number>();
+    result.replies.forEach(n => histogram.set(n, (histogram.get(n) ?? 0) + 1));
+    const counts = [...histogram.entries()].sort(([a], [b]) => a - b).map(([n, requests]) => `${requests}×${n}`).join(", ");
+
+    console.log(`   ${result.replies.every(n => n === expectedReplies) ? "✅" : "❌"} Replies per request: ${counts} (expected ${expectedReplies} each)`);
+    const responders = [...result.responders.entries()].map(([r, n]) => `${r} ${n}`).join(", ");
+    console.log(`   👥 Answered by: ${responders || "nobody"}`);
+    if (expectedCluster) {
+      const ok = result.strayClusters.length === 0;
+      console.log(`   ${ok ? "✅" : "❌"} Local preference: ${ok ? `every reply from ${expectedCluster}` : `replies also from ${result.strayClusters.join(", ")}`}`);
+    }
+    console.log("");
+  }
+
+  private showSummary(): boolean {
+    console.log("📊 Queue Group Results");
+    console.log("======================");
+    for (const result of this.results) {
+      const duplicated = result.replies.filter(n => n > result.testCase.expectedReplies).length;
+      const missing = result.replies.filter(n => n < result.testCase.expectedReplies).length;
+      const detail = result.error ?? `${missing} short, ${duplicated} over${result.strayClusters.length > 0 ? `, non-local replies` : ""}`;
+      console.log(`   ${result.passed ? "✅" : "❌"} ${result.testCase.name.padEnd(20)}${detail}`);
+    }
+
+    const passed = this.results.every(r => r.passed);
+    console.log(`\n${passed ? "🎉 Queue groups PASSED" : "💥 Queue groups FAILED"}: ` +
+      `${this.results.filter(r => r.passed).length}/${this.results.length} cases as expected`);
+    return passed;
+  }
+
+  private async stopHandlers(): Promise<void> {
+    const running = this.handlers.filter(child => child.exitCode === null && child.signalCode === null);
+    this.handlers = [];
+    await Promise.all(running.map(child => new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        resolve();
+      }, STOP_TIMEOUT_MS);
+      child.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      child.kill('SIGTERM');
+    })));
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log("🚀 NATS Queue Group Test");
+    console.log("========================");
+    console.log("Usage:");
+    console.log("  npx tsx queue-group-test.ts [case]...            # All cases, or the named ones");
+    console.log("  npx tsx queue-group-test.ts --requests <n>       # Requests per case (default 20)");
+    console.log("  npx tsx queue-group-test.ts --verbose            # Also show the handlers' console output");
+    console.log(`  npx tsx queue-group-test.ts ${EMBEDDED_FLAG}           # Start nats-server on free ports for the run`);
+    console.log("");
+    console.log("Cases:");
+    for (const testCase of QUEUE_GROUP_CASES) {
+      console.log(`  ${testCase.name.padEnd(20)}${testCase.description}`);
+    }
+    return;
+  }
+
+  let requests = DEFAULT_REQUESTS;
+  const names: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--requests') {
+      requests = Number(args[++i]);
+    } else if (!args[i].startsWith('-')) {
+      names.push(args[i]);
+    }
+  }
+  if (!Number.isInteger(requests) || requests < 1) {
+    console.error("❌ --requests needs a positive integer");
+    process.exit(1);
+  }
+
+  const unknown = names.filter(name => !QUEUE_GROUP_CASES.some(c => c.name === name));
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown case(s): ${unknown.join(", ")} (available: ${QUEUE_GROUP_CASES.map(c => c.name).join(", ")})`);
+    process.exit(1);
+  }
+
+  const embedded = args.includes(EMBEDDED_FLAG);
+  if (!embedded && listClusters().length < 2) {
+    console.error("❌ The queue group cases need a main and a leaf cluster in the topology");
+    process.exit(1);
+  }
+
+  const cases = names.length > 0 ? QUEUE_GROUP_CASES.filter(c => names.includes(c.name)) : QUEUE_GROUP_CASES;
+  const test = new QueueGroupTest(requests, args.includes('--verbose') || args.includes('-v'), embedded);
+  process.exit(await test.run(cases) ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error("❌ Test error:", error);
+  process.exit(1);
+});
@@ -5,48 +5,27 @@
 // Demonstrates how leaf node architecture eliminates the need for application-level fallback
 
 import { connect, ConnectionOptions, NatsConnection } from "nats";
-import { readFileSync } from "fs";
-
-interface UserConfig {
-  name: string;
-  certFile: string;
-  keyFile: string;
-  caFile: string;
-}
-
-interface ClusterInfo {
-  name: string;
-  url: string;
-  monitoring: string;
-  description: string;
-}
+import { UserConfig, ClusterInfo, listUsers, listClusters, findUser, buildConnectionOptions } from "./nats-topology.js";
+import { PermissionProbe, checkCoverage, describePermissionSet } from "./nats-permissions.js";
+import { classifyNatsError, describeFailure } from "./nats-errors.js";
+import { emit, initEventOutput } from "./nats-events.js";
+import { decodeReply } from "./nats-service.js";
+import { envelopeHeaders, readEnvelope, describeOrigin } from "./nats-envelope.js";
+import { CODEC_USAGE, CodecArgs, CodecRegistry, PayloadCodec, describePayload, parseCodecArgs, withContentType } from "./nats-codecs.js";
 
 class RequestReplyLeafPublisher {
   private config: UserConfig;
   private nc: NatsConnection | null = null;
   private connectedCluster: ClusterInfo | null = null;
 
-  // Define available clusters
-  private clusters: ClusterInfo[] = [
-    {
-      name: "main",
-      url: "tls://localhost:4222",
-      monitoring: "http://localhost:8222",
-      description: "Main restrictive cluster"
-    },
-    {
-      name: "leaf", 
-      url: "tls://localhost:4223",
-      monitoring: "http://localhost:8223",
-      description: "Leaf broadcast relay cluster"
-    }
-  ];
+  // Available clusters, in order of preference (see nats-topology.json)
+  private clusters: ClusterInfo[] = listClusters();
 
-  constructor(config: UserConfig) {
+  constructor(config: UserConfig, private payloads = new CodecRegistry(), private codec: PayloadCodec = payloads.codec("raw")) {
     this.config = config;
   }
 
-  async connectWithFallback(): Promise<boolean> {
+  async connectWithFallback(subjects: string[]): Promise<boolean> {
     console.log(`🔗 Starting connection process for ${this.config.name}...`);
     console.log("   Strategy: Try main cluster first, test permissions, fallback to leaf if needed");
     
@@ -57,27 +36,21 @@ class RequestReplyLeafPublisher {
       console.log(`   Description: ${cluster.description}`);
       
       try {
-        const opts: ConnectionOptions = {
-          servers: [cluster.url],
-          tls: {
-            cert: readFileSync(this.config.certFile),
-            key: readFileSync(this.config.keyFile),
-            ca: readFileSync(this.config.caFile)
-          },
+        const opts: ConnectionOptions = buildConnectionOptions(this.config, cluster, {
           name: `${this.config.name}_rr_leaf_publisher`,
-          timeout: 5000,
           reconnect: true,
           maxReconnectAttempts: 3
-        };
+        });
 
         this.nc = await connect(opts);
         this.connectedCluster = cluster;
         
         console.log(`✅ TLS connection established to ${cluster.name} cluster`);
         console.log(`   User: ${this.config.name}`);
+        emit({ event: "connected", user: this.config.id, cluster: cluster.name, url: cluster.url });
         
         // Test if we can actually publish to key subjects
-        if (await this.testPublishCapability()) {
+        if (await this.testPublishCapability(subjects)) {
           console.log(`✅ Successfully validated permissions on ${cluster.name} cluster`);
           console.log(`   Cluster: ${cluster.description}`);
           console.log(`   Monitoring: ${cluster.monitoring}`);
@@ -85,6 +58,7 @@ class RequestReplyLeafPublisher {
         } else {
           console.log(`❌ Permission validation failed on ${cluster.name} cluster`);
           console.log(`   📝 Note: Connection succeeded but publish permissions are restricted`);
+          emit({ event: "fallback", user: this.config.id, cluster: cluster.name, reason: "publish permissions do not cover requested subjects" });
           await this.nc.close();
           this.nc = null;
           this.connectedCluster = null;
@@ -92,8 +66,10 @@ class RequestReplyLeafPublisher {
         }
         
       } catch (error) {
+        const failure = classifyNatsError(error);
         console.log(`❌ Failed to connect to ${cluster.name} cluster`);
-        console.log(`   Reason: ${error.message}`);
+        console.log(`   Reason: ${failure.message}`);
+        emit({ event: "connect_failed", user: this.config.id, cluster: cluster.name, failure: failure.kind, message: failure.message });
         console.log(`   ⏭️  Trying next cluster...`);
       }
     }
@@ -102,56 +78,30 @@ class RequestReplyLeafPublisher {
     return false;
   }
 
-  private async testPublishCapability(): Promise<boolean> {
-    // Test if we can actually publish/request on key subjects
-    // For request-reply, we can test by attempting a quick request with a very short timeout
-    const userName = this.config.name.toLowerCase();
-    const clusterName = this.connectedCluster?.name;
-    
-    console.log(`   🧪 Testing publish capabilities for ${userName} on ${clusterName} cluster...`);
-    
-    if (userName === "bar") {
-      if (clusterName === "main") {
-        console.log(`   📝 Bar on main cluster: Testing restricted subject access`);
-        console.log(`   📝 Expected to fail for rpc.> subjects - will fallback to leaf`);
-        
-        // Test a quick request to see if we get permission-related errors
-        try {
-          // Very short timeout - we just want to see if it gets blocked by permissions
-          await this.nc!.request("rpc.hello.world", "permission-test", { timeout: 100 });
-          console.log(`   ✅ Bar can access rpc.hello.world on main cluster`);
-          return true;
-        } catch (error) {
-          if (error.message.includes('timeout')) {
-            // Timeout means the request went through but no subscriber
-            // This indicates permissions are OK
-            console.log(`   ✅ Bar can publish to rpc.hello.world on main cluster (timeout = no subscriber)`);
-            return true;
-          } else if (error.message.includes('no responders') || error.message.includes('503')) {
-            // This could be either no responders OR permission denial
-            // For Bar on main cluster, assume it's permission denial
-            console.log(`   ❌ Bar cannot access rpc.hello.world on main cluster (likely permission denied)`);
-            return false;
-          } else {
-            console.log(`   ❌ Error testing permissions: ${error.message}`);
-            return false;
-          }
-        }
-      } else {
-        // Bar on leaf cluster should have full access
-        console.log(`   ✅ Bar on leaf cluster: Full access available`);
-        return true;
-      }
-    } else {
-      // Foo and MMM have full permissions on both clusters
-      if (clusterName === "main") {
-        console.log(`   ✅ ${userName} on main cluster: Full access (preferred)`);
-        return true;
-      } else {
-        console.log(`   ✅ ${userName} on leaf cluster: Full access available`);
-        return true;
-      }
+  private async testPublishCapability(subjects: string[]): Promise<boolean> {
+    // Resolve the connected identity's effective permissions on this cluster
+    // and require publish access to every subject we intend to request on
+    console.log(`   🧪 Testing publish capabilities for ${this.config.name} on ${this.connectedCluster?.name} cluster...`);
+
+    const probe = new PermissionProbe(this.nc!, this.config, this.connectedCluster!);
+    const permissions = await probe.resolve();
+
+    console.log(`   🪪 Identity: ${permissions.identity} (via ${permissions.source})`);
+    if (!permissions.matchedUser) {
+      console.log(`   ⚠️  No user entry matched - using default_permissions`);
     }
+    console.log(`   📤 Publish allowed: ${describePermissionSet(permissions.publish)}`);
+
+    // Replies come back on _INBOX.>, so request-reply also needs to subscribe there
+    const coverage = checkCoverage(permissions, { publish: subjects, subscribe: ["_INBOX.>"] });
+    if (coverage.covered) {
+      console.log(`   ✅ ${this.config.name} can request ${subjects.join(', ')} on ${this.connectedCluster?.name} cluster`);
+      return true;
+    }
+
+    const missing = [...coverage.missingPublish, ...coverage.missingSubscribe.map(s => `${s} (subscribe)`)];
+    console.log(`   ❌ ${this.config.name} is not permitted on ${this.connectedCluster?.name} cluster: ${missing.join(', ')}`);
+    return false;
   }
 
   async publishRequest(subject: string, message: string): Promise<void> {
@@ -165,28 +115,31 @@ class RequestReplyLeafPublisher {
     console.log(`   Publisher: ${this.config.name}`);
     console.log(`   Via cluster: ${this.connectedCluster.name} (${this.connectedCluster.description})`);
     
-    const messageData = JSON.stringify({
-      message,
+    console.log(`   Content-Type: ${this.codec.contentType}`);
+
+    const payload = this.codec.encode(this.codec.fromText(message));
+    const envelope = withContentType(this.codec, envelopeHeaders({
       user: this.config.name,
-      timestamp: new Date().toISOString(),
-      publishedFrom: this.connectedCluster.name,
+      cluster: this.connectedCluster.name,
       scenario: "Scenario 4 - Request-Reply with Leaf Node Architecture"
-    });
+    }));
 
+    const startTime = Date.now();
     try {
       console.log(`   ⏳ Waiting for response...`);
       
       const response = await this.nc.request(
         subject,
-        messageData,
-        { timeout: 5000 }
+        payload,
+        { timeout: 5000, headers: envelope }
       );
 
-      const responseData = JSON.parse(response.string());
+      const responseData = decodeReply(response, this.payloads.forHeaders(response.headers));
+      emit({ event: "request_succeeded", user: this.config.id, cluster: this.connectedCluster.name, subject, latencyMs: Date.now() - startTime });
       
       console.log(`   ✅ SUCCESS: Received response!`);
-      console.log(`   📍 Response from: ${responseData.user || 'Unknown subscriber'}`);
-      console.log(`   📄 Response data: ${JSON.stringify(responseData, null, 2)}`);
+      console.log(`   📍 Response from: ${describeOrigin(readEnvelope(response.headers))}`);
+      console.log(`   📄 Response data: ${describePayload(responseData)}`);
       console.log(`   🌿 Architecture: Request routed through ${this.connectedCluster.name} cluster`);
       
       if (this.connectedCluster.name === "leaf") {
@@ -194,16 +147,10 @@ class RequestReplyLeafPublisher {
       }
       
     } catch (error) {
-      const errorMsg = error.message || error.toString();
-      console.log(`   ❌ Request failed: ${errorMsg}`);
-      
-      if (errorMsg.includes('no responders')) {
-        console.log(`   🔄 Reason: No active subscribers on ${subject}`);
-      } else if (errorMsg.includes('timeout')) {
-        console.log(`   🔄 Reason: Request timeout - no response within 5000ms`);
-      } else {
-        console.log(`   🔄 Reason: ${errorMsg}`);
-      }
+      const failure = classifyNatsError(error);
+      console.log(`   ❌ Request failed: ${failure.message}`);
+      emit({ event: "request_failed", user: this.config.id, cluster: this.connectedCluster.name, subject, failure: failure.kind, message: failure.message });
+      console.log(`   ${describeFailure(failure, subject, 5000)}`);
       
       // In Scenario 4, we don't need application-level fallback!
       // The leaf node architecture handles routing automatically
@@ -221,7 +168,7 @@ class RequestReplyLeafPublisher {
     console.log(`   🏠 Connected to: ${this.connectedCluster.name} cluster`);
     console.log(`   🔗 URL: ${this.connectedCluster.url}`);
     console.log(`   📊 Monitoring: ${this.connectedCluster.monitoring}`);
-    console.log(`   📝 Strategy: ${this.config.name === 'Bar' ? 'Leaf cluster bypass' : 'Direct main cluster'}`);
+    console.log(`   📝 Strategy: ${this.connectedCluster.name === this.clusters[0].name ? `Direct ${this.connectedCluster.name} cluster` : 'Leaf cluster bypass'}`);
   }
 
   async close() {
@@ -233,18 +180,29 @@ class RequestReplyLeafPublisher {
 }
 
 async function main() {
-  const args = process.argv.slice(2);
+  let args = initEventOutput("request-reply-leaf-publisher", process.argv.slice(2));
+  let codecs: CodecArgs;
+  try {
+    codecs = parseCodecArgs(args, "raw");
+    args = codecs.args;
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
   
   if (args.length < 1) {
     console.log("🚀 NATS Request-Reply Leaf Publisher - Scenario 4");
     console.log("===============================================");
-    console.log("Usage: npx tsx request-reply-leaf-publisher.ts <user> [subject] [message]");
+    console.log("Usage: npx tsx request-reply-leaf-publisher.ts <user> [subject] [message] [--codec <codec>] [--json]");
     console.log("");
     console.log("Available users:");
     console.log("  foo - Full access user (connects to main cluster)");
     console.log("  bar - Restricted user (connects to leaf cluster for bypass)");  
     console.log("  mmm - Full access user (connects to main cluster)");
     console.log("");
+    console.log("Options:");
+    CODEC_USAGE.forEach(line => console.log(line));
+    console.log("");
     console.log("Examples:");
     console.log("  npx tsx request-reply-leaf-publisher.ts bar");
     console.log("  npx tsx request-reply-leaf-publisher.ts foo rpc.hello.world 'Hello World'");
@@ -256,32 +214,10 @@ async function main() {
   const subject = args[1] || "rpc.hello.world";
   const message = args[2] || `Test message from ${userName}`;
   
-  // Define user configurations
-  const userConfigs: { [key: string]: UserConfig } = {
-    foo: {
-      name: "Foo",
-      certFile: "./certs/foo-cert.pem",
-      keyFile: "./certs/foo-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    },
-    bar: {
-      name: "Bar",
-      certFile: "./certs/bar-cert.pem", 
-      keyFile: "./certs/bar-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    },
-    mmm: {
-      name: "MMM",
-      certFile: "./certs/mmm-cert.pem",
-      keyFile: "./certs/mmm-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    }
-  };
-
-  const config = userConfigs[userName];
+  const config = findUser(userName);
   if (!config) {
     console.log(`❌ Unknown user: ${userName}`);
-    console.log("Available users: foo, bar, mmm");
+    console.log(`Available users: ${listUsers().map(u => u.id).join(', ')}`);
     return;
   }
 
@@ -302,11 +238,11 @@ async function main() {
   }
   console.log("");
 
-  const publisher = new RequestReplyLeafPublisher(config);
+  const publisher = new RequestReplyLeafPublisher(config, codecs.registry, codecs.codec);
 
   try {
     // Connect with fallback strategy
-    if (!await publisher.connectWithFallback()) {
+    if (!await publisher.connectWithFallback([subject])) {
       process.exit(1);
     }
 
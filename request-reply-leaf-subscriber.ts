@@ -4,47 +4,38 @@
 // Cluster-aware subscriber that handles requests from both main and leaf clusters
 // Demonstrates how leaf node architecture enables seamless request-reply across clusters
 
-import { connect, ConnectionOptions, NatsConnection, Subscription } from "nats";
-import { readFileSync } from "fs";
-
-interface UserConfig {
-  name: string;
-  certFile: string;
-  keyFile: string;
-  caFile: string;
-}
-
-interface ClusterInfo {
-  name: string;
-  url: string;
-  monitoring: string;
-  description: string;
-}
+import { connect, ConnectionOptions, NatsConnection } from "nats";
+import { UserConfig, ClusterInfo, listUsers, listClusters, findUser, buildConnectionOptions } from "./nats-topology.js";
+import { EffectivePermissions, PermissionProbe, canSubscribe, describePermissionSet } from "./nats-permissions.js";
+import { PermissionDeniedError, classifyNatsError } from "./nats-errors.js";
+import { emit, initEventOutput } from "./nats-events.js";
+import { NatsService, ServiceRequest } from "./nats-service.js";
+import { describeOrigin, readEnvelope } from "./nats-envelope.js";
+import { CodecRegistry, DEFAULT_PROTO_FILE, PROTO_FLAG, describePayload, parseCodecArgs } from "./nats-codecs.js";
+
+// Subjects a request handler listens on, filtered by the user's effective permissions.
+// Queued subjects are load balanced: with several handlers running, one of them answers
+const REQUEST_SUBJECTS = [
+  { subject: "rpc.>", queued: true },            // All RPC subjects
+  { subject: "broad.rpc.>", queued: false },     // Broad RPC patterns, meant to reach every handler
+  { subject: "_INBOX.>", queued: false }         // Reply subjects
+];
+
+const DEFAULT_QUEUE_GROUP = "rpc-handlers";
 
 class RequestReplyLeafSubscriber {
   private config: UserConfig;
   private nc: NatsConnection | null = null;
   private connectedCluster: ClusterInfo | null = null;
-  private subscriptions: Subscription[] = [];
+  private service: NatsService | null = null;
   private messageCount = 0;
+  private permissions: EffectivePermissions | null = null;
 
-  // Define available clusters
-  private clusters: ClusterInfo[] = [
-    {
-      name: "main",
-      url: "tls://localhost:4222",
-      monitoring: "http://localhost:8222",
-      description: "Main restrictive cluster"
-    },
-    {
-      name: "leaf", 
-      url: "tls://localhost:4223",
-      monitoring: "http://localhost:8223",
-      description: "Leaf broadcast relay cluster"
-    }
-  ];
+  // Available clusters, in order of preference (see nats-topology.json)
+  private clusters: ClusterInfo[] = listClusters();
 
-  constructor(config: UserConfig) {
+  // queue: the group queued subjects join, undefined to have every handler answer every request
+  constructor(config: UserConfig, private queue: string | undefined = DEFAULT_QUEUE_GROUP, private payloads = new CodecRegistry()) {
     this.config = config;
   }
 
@@ -65,30 +56,28 @@ class RequestReplyLeafSubscriber {
     console.log(`   Description: ${targetCluster.description}`);
     
     try {
-      const opts: ConnectionOptions = {
-        servers: [targetCluster.url],
-        tls: {
-          cert: readFileSync(this.config.certFile),
-          key: readFileSync(this.config.keyFile),
-          ca: readFileSync(this.config.caFile)
-        },
+      const opts: ConnectionOptions = buildConnectionOptions(this.config, targetCluster, {
         name: `${this.config.name}_rr_leaf_subscriber`,
-        timeout: 5000,
         reconnect: true,
         maxReconnectAttempts: 3
-      };
+      });
 
       this.nc = await connect(opts);
       this.connectedCluster = targetCluster;
+      this.permissions = await new PermissionProbe(this.nc, this.config, targetCluster).resolve();
       
       console.log(`✅ Connected to ${targetCluster.name} cluster`);
-      console.log(`   User: ${this.config.name}`);
+      console.log(`   User: ${this.config.name} (${this.permissions.identity})`);
+      console.log(`   Subscribe allowed: ${describePermissionSet(this.permissions.subscribe)}`);
       console.log(`   Monitoring: ${targetCluster.monitoring}`);
+      emit({ event: "connected", user: this.config.id, cluster: targetCluster.name, url: targetCluster.url });
       
       return true;
       
     } catch (error) {
-      console.log(`❌ Failed to connect to ${targetCluster.name} cluster: ${error.message}`);
+      const failure = classifyNatsError(error);
+      console.log(`❌ Failed to connect to ${targetCluster.name} cluster: ${failure.message}`);
+      emit({ event: "connect_failed", user: this.config.id, cluster: targetCluster.name, failure: failure.kind, message: failure.message });
       return false;
     }
   }
@@ -100,115 +89,103 @@ class RequestReplyLeafSubscriber {
 
     console.log(`\n📡 Setting up request handlers on ${this.connectedCluster.name} cluster...`);
 
+    const cluster = this.connectedCluster;
+    this.service = new NatsService(this.nc, {
+      name: `${this.config.id}-rr-leaf`,
+      version: "1.0.0",
+      description: "Scenario 4 - Request-Reply with Leaf Node Architecture",
+      context: { cluster: cluster.name, user: this.config.name },
+      replyEnvelope: () => ({ user: this.config.name, cluster: cluster.name }),
+      onReply: (request) => this.replySent(request),
+      onError: (request, error) => {
+        console.error(`   ❌ Failed to answer ${request.subject}: ${error.code} ${error.message}`);
+      }
+    });
+
     // Define subjects to listen on based on user permissions
     const subjects = this.getSubscriptionSubjects();
     
-    for (const subject of subjects) {
+    for (const { subject, queued } of subjects) {
+      const queue = queued ? this.queue : undefined;
       try {
-        console.log(`   🎯 Creating handler for: ${subject}`);
-        const sub = this.nc.subscribe(subject);
-        this.subscriptions.push(sub);
-        
-        // Handle requests for this subscription
-        this.handleRequests(sub, subject);
+        console.log(`   🎯 Creating handler for: ${subject}${queue ? ` (queue group ${queue})` : ""}`);
+        await this.service.handle(subject, (request) => this.handleRequest(request), { payloads: this.payloads, queue });
         
         console.log(`   ✅ Handler ready for ${subject}`);
+        emit({ event: "subscribed", user: this.config.id, cluster: cluster.name, subject, queue });
       } catch (error) {
+        if (error instanceof PermissionDeniedError) {
+          console.log(`   🚫 Handler denied for ${subject}: ${error.message}`);
+          emit({ event: "subscribe_denied", user: this.config.id, cluster: cluster.name, subject });
+          continue;
+        }
         console.log(`   ❌ Failed to subscribe to ${subject}: ${error.message}`);
       }
     }
+
+    if (await this.service.start()) {
+      console.log(`   🔍 Discoverable as ${this.service.info().name} via $SRV.PING/INFO/STATS`);
+    }
     
-    console.log(`\n📡 ${this.config.name} ready to handle requests on ${this.connectedCluster.name} cluster`);
-    console.log(`   Total handlers: ${this.subscriptions.length}`);
+    // checkedSubscribe() has already flushed every handler before readiness is announced
+    emit({ event: "ready", user: this.config.id, cluster: cluster.name, subjects: this.service.subjects });
+
+    console.log(`\n📡 ${this.config.name} ready to handle requests on ${cluster.name} cluster`);
+    console.log(`   Total handlers: ${this.service.subjects.length}`);
     console.log(`   💡 Can handle requests from publishers on ANY cluster (main or leaf)`);
   }
 
-  private getSubscriptionSubjects(): string[] {
-    // Define subjects based on user permissions
-    const userName = this.config.name.toLowerCase();
+  private getSubscriptionSubjects(): typeof REQUEST_SUBJECTS {
+    // Only handle subjects the connected identity is actually permitted to subscribe to
+    return REQUEST_SUBJECTS.filter(({ subject }) => !this.permissions || canSubscribe(this.permissions, subject));
+  }
+
+  // The payload is decoded by its Content-Type; who sent it and from where comes from the headers
+  private handleRequest(request: ServiceRequest<unknown>) {
+    this.messageCount++;
+    const origin = readEnvelope(request.headers);
+
+    emit({ event: "message_received", user: this.config.id, cluster: this.connectedCluster!.name, subject: request.subject, pattern: request.pattern });
+
+    console.log(`\n📨 [${this.config.name}] Request #${this.messageCount}`);
+    console.log(`   📍 Subject: ${request.subject}`);
+    console.log(`   🎯 Via pattern: ${request.pattern}`);
+    console.log(`   🏠 Subscriber cluster: ${this.connectedCluster?.name} (${this.connectedCluster?.description})`);
+    console.log(`   👤 From: ${origin.user || 'Unknown'}`);
+    console.log(`   🌿 Publisher cluster: ${origin.cluster || 'Unknown'}`);
+    console.log(`   ⏰ Received: ${new Date().toISOString()}`);
+    console.log(`   📄 Request: ${describePayload(request.data) || 'No message'}`);
     
-    if (userName === "bar") {
-      // Bar user has restricted permissions on main cluster
-      if (this.connectedCluster?.name === "main") {
-        return [
-          "broad.rpc.>",     // Only pattern Bar can handle on main cluster
-          "_INBOX.>"         // Reply subjects
-        ];
-      } else {
-        // Bar has full access on leaf cluster
-        return [
-          "rpc.>",           // All RPC subjects
-          "broad.rpc.>",     // Broad RPC patterns  
-          "_INBOX.>"         // Reply subjects
-        ];
-      }
-    } else {
-      // Foo and MMM users have full permissions on both clusters
-      return [
-        "rpc.>",           // All RPC subjects
-        "broad.rpc.>",     // Broad RPC patterns
-        "_INBOX.>"         // Reply subjects
-      ];
+    // Highlight cross-cluster communication
+    if (origin.cluster && origin.cluster !== this.connectedCluster?.name) {
+      console.log(`   🌉 Cross-cluster request! ${origin.cluster} → ${this.connectedCluster?.name}`);
     }
-  }
 
-  private async handleRequests(subscription: Subscription, pattern: string): Promise<void> {
-    (async () => {
-      for await (const msg of subscription) {
-        this.messageCount++;
-        
-        let requestData;
-        try {
-          requestData = JSON.parse(msg.data.toString());
-        } catch {
-          requestData = { raw: msg.data.toString() };
-        }
+    if (!request.reply) {
+      console.log(`   📝 No reply address provided`);
+      console.log("");
+    }
 
-        console.log(`\n📨 [${this.config.name}] Request #${this.messageCount}`);
-        console.log(`   📍 Subject: ${msg.subject}`);
-        console.log(`   🎯 Via pattern: ${pattern}`);
-        console.log(`   🏠 Subscriber cluster: ${this.connectedCluster?.name} (${this.connectedCluster?.description})`);
-        console.log(`   👤 From: ${requestData.user || 'Unknown'}`);
-        console.log(`   🌿 Publisher cluster: ${requestData.publishedFrom || 'Unknown'}`);
-        console.log(`   ⏰ Received: ${new Date().toISOString()}`);
-        console.log(`   📄 Request: ${requestData.message || 'No message'}`);
-        
-        // Highlight cross-cluster communication
-        if (requestData.publishedFrom && requestData.publishedFrom !== this.connectedCluster?.name) {
-          console.log(`   🌉 Cross-cluster request! ${requestData.publishedFrom} → ${this.connectedCluster?.name}`);
-        }
+    // Responder and cluster travel in the reply's headers (replyEnvelope)
+    return {
+      status: 'success',
+      originalRequest: request.data instanceof Uint8Array ? describePayload(request.data) : request.data,
+      requestedBy: describeOrigin(origin),
+      receivedSubject: request.subject,
+      subscribedVia: request.pattern,
+      scenario: "Scenario 4 - Request-Reply with Leaf Node Architecture"
+    };
+  }
 
-        // Send reply if reply subject is provided
-        if (msg.reply) {
-          try {
-            const replyData = {
-              status: 'success',
-              respondedBy: this.config.name,
-              respondedFrom: this.connectedCluster?.name,
-              respondedAt: new Date().toISOString(),
-              originalRequest: requestData,
-              receivedSubject: msg.subject,
-              subscribedVia: pattern,
-              scenario: "Scenario 4 - Request-Reply with Leaf Node Architecture"
-            };
-
-            this.nc!.publish(msg.reply, JSON.stringify(replyData, null, 2));
-            console.log(`   ✅ Reply sent to: ${msg.reply}`);
-            
-            if (requestData.publishedFrom && requestData.publishedFrom !== this.connectedCluster?.name) {
-              console.log(`   🌉 Reply routed back: ${this.connectedCluster?.name} → ${requestData.publishedFrom}`);
-            }
-            
-          } catch (replyError) {
-            console.error(`   ❌ Failed to send reply: ${replyError.message}`);
-          }
-        } else {
-          console.log(`   📝 No reply address provided`);
-        }
-        
-        console.log("");
-      }
-    })();
+  private replySent(request: ServiceRequest<unknown>) {
+    const origin = readEnvelope(request.headers);
+    console.log(`   ✅ Reply sent to: ${request.reply}`);
+    emit({ event: "reply_sent", user: this.config.id, cluster: this.connectedCluster!.name, subject: request.subject, replyTo: request.reply! });
+    
+    if (origin.cluster && origin.cluster !== this.connectedCluster?.name) {
+      console.log(`   🌉 Reply routed back: ${this.connectedCluster?.name} → ${origin.cluster}`);
+    }
+    console.log("");
   }
 
   async showConnectionInfo() {
@@ -221,7 +198,8 @@ class RequestReplyLeafSubscriber {
     console.log(`   🏠 Cluster: ${this.connectedCluster.name} (${this.connectedCluster.description})`);
     console.log(`   🔗 URL: ${this.connectedCluster.url}`);
     console.log(`   📊 Monitoring: ${this.connectedCluster.monitoring}`);
-    console.log(`   📡 Handlers: ${this.subscriptions.length}`);
+    console.log(`   📡 Handlers: ${this.service?.subjects.length ?? 0}`);
+    console.log(`   👥 Queue group: ${this.queue ?? "none (every handler answers rpc.> requests)"}`);
     console.log(`   📨 Requests handled: ${this.messageCount}`);
     console.log(`   💡 Can receive requests from publishers on both main and leaf clusters`);
   }
@@ -232,36 +210,58 @@ class RequestReplyLeafSubscriber {
       connectedCluster: this.connectedCluster?.name || "none",
       clusterDescription: this.connectedCluster?.description || "not connected",
       requestsHandled: this.messageCount,
-      handlers: this.subscriptions.length,
-      handlerPatterns: this.getSubscriptionSubjects()
+      handlers: this.service?.subjects.length ?? 0,
+      handlerPatterns: this.getSubscriptionSubjects().map(s => s.subject),
+      queueGroup: this.queue ?? "none"
     };
   }
 
   async close() {
     console.log(`\n🔌 Closing ${this.config.name} request handlers...`);
     
-    for (const sub of this.subscriptions) {
-      try {
-        await sub.unsubscribe();
-      } catch (error) {
-        // Ignore unsubscribe errors
-      }
-    }
+    // Requests already in progress are still answered
+    await this.service?.stop();
     
     if (this.nc) {
       await this.nc.close();
       console.log(`🔌 ${this.config.name} disconnected from ${this.connectedCluster?.name} cluster`);
     }
+    emit({ event: "closed", user: this.config.id, cluster: this.connectedCluster?.name, messages: this.messageCount });
   }
 }
 
 async function main() {
-  const args = process.argv.slice(2);
+  let rawArgs = initEventOutput("request-reply-leaf-subscriber", process.argv.slice(2));
+  let payloads: CodecRegistry;
+  try {
+    ({ registry: payloads, args: rawArgs } = parseCodecArgs(rawArgs));
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+
+  // --queue <name> picks the group rpc.> handlers join, --no-queue leaves them ungrouped
+  let queue: string | undefined = DEFAULT_QUEUE_GROUP;
+  const args: string[] = [];
+  for (let i = 0; i < rawArgs.length; i++) {
+    if (rawArgs[i] === "--queue") {
+      queue = rawArgs[++i];
+      // Without a group name the handlers would run ungrouped and reply more than once
+      if (queue === undefined || queue.startsWith("--")) {
+        console.error("❌ --queue needs a value (use --no-queue to leave handlers ungrouped)");
+        process.exit(1);
+      }
+    } else if (rawArgs[i] === "--no-queue") {
+      queue = undefined;
+    } else {
+      args.push(rawArgs[i]);
+    }
+  }
   
   if (args.length < 1) {
     console.log("🚀 NATS Request-Reply Leaf Subscriber - Scenario 4");
     console.log("================================================");
-    console.log("Usage: npx tsx request-reply-leaf-subscriber.ts <user> [cluster]");
+    console.log("Usage: npx tsx request-reply-leaf-subscriber.ts <user> [cluster] [--queue <group> | --no-queue] [--proto <file>] [--json]");
     console.log("");
     console.log("Available users:");
     console.log("  foo - Full access user");
@@ -272,42 +272,29 @@ async function main() {
     console.log("  main - Main restrictive cluster (default)");
     console.log("  leaf - Leaf broadcast relay cluster");
     console.log("");
+    console.log("Queue groups:");
+    console.log(`  rpc.> handlers join the "${DEFAULT_QUEUE_GROUP}" queue group by default, so running`);
+    console.log("  several handlers gives one reply per request. broad.rpc.> always reaches every handler.");
+    console.log("");
+    console.log("Payloads:");
+    console.log("  Requests are decoded by their Content-Type header (JSON, MessagePack, protobuf, raw bytes).");
+    console.log(`  Protobuf message types come from ${PROTO_FLAG} schemas (default ${DEFAULT_PROTO_FILE}).`);
+    console.log("");
     console.log("Examples:");
     console.log("  npx tsx request-reply-leaf-subscriber.ts foo");
     console.log("  npx tsx request-reply-leaf-subscriber.ts bar main");
     console.log("  npx tsx request-reply-leaf-subscriber.ts foo leaf");
+    console.log("  npx tsx request-reply-leaf-subscriber.ts mmm main --no-queue");
     return;
   }
 
   const userName = args[0].toLowerCase();
   const clusterName = args[1] || "main";
   
-  // Define user configurations
-  const userConfigs: { [key: string]: UserConfig } = {
-    foo: {
-      name: "Foo",
-      certFile: "./certs/foo-cert.pem",
-      keyFile: "./certs/foo-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    },
-    bar: {
-      name: "Bar",
-      certFile: "./certs/bar-cert.pem", 
-      keyFile: "./certs/bar-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    },
-    mmm: {
-      name: "MMM",
-      certFile: "./certs/mmm-cert.pem",
-      keyFile: "./certs/mmm-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    }
-  };
-
-  const config = userConfigs[userName];
+  const config = findUser(userName);
   if (!config) {
     console.log(`❌ Unknown user: ${userName}`);
-    console.log("Available users: foo, bar, mmm");
+    console.log(`Available users: ${listUsers().map(u => u.id).join(', ')}`);
     return;
   }
 
@@ -315,15 +302,16 @@ async function main() {
   console.log("============================================================");
   console.log(`👤 User: ${config.name}`);
   console.log(`🏠 Target cluster: ${clusterName}`);
+  console.log(`👥 Queue group: ${queue ?? "none"}`);
   console.log("");
   console.log("💡 Purpose: Handle requests from publishers on ANY cluster (main or leaf)");
   console.log("🌉 Demonstrates seamless cross-cluster request-reply communication");
   console.log("");
 
-  const subscriber = new RequestReplyLeafSubscriber(config);
+  const subscriber = new RequestReplyLeafSubscriber(config, queue, payloads);
 
   // Set up graceful shutdown
-  process.on('SIGINT', async () => {
+  const shutdown = async () => {
     console.log("\n🛑 Shutting down subscriber...");
     const stats = subscriber.getStats();
     console.log("\n📊 Final Statistics:");
@@ -332,7 +320,10 @@ async function main() {
     console.log(`   Requests handled: ${stats.requestsHandled}`);
     await subscriber.close();
     process.exit(0);
-  });
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 
   try {
     // Connect to specified cluster
@@ -4,16 +4,13 @@
 // Automated test demonstrating how leaf nodes eliminate permission issues
 // Compares infrastructure-level solution vs application-level fallback
 
-import { connect, ConnectionOptions, NatsConnection } from "nats";
-import { readFileSync } from "fs";
+import { connect } from "nats";
 import { spawn, ChildProcess } from "child_process";
-
-interface UserConfig {
-  name: string;
-  certFile: string;
-  keyFile: string;
-  caFile: string;
-}
+import { getUser, getCluster, listClusters, buildConnectionOptions } from "./nats-topology.js";
+import { NatsFailure, classifyNatsError, failureLabel } from "./nats-errors.js";
+import { JSON_FLAG, waitForReady } from "./nats-events.js";
+import { decodeReply } from "./nats-service.js";
+import { envelopeHeaders, readEnvelope } from "./nats-envelope.js";
 
 interface TestResult {
   user: string;
@@ -22,6 +19,7 @@ interface TestResult {
   success: boolean;
   responseTime: number;
   error?: string;
+  failure?: NatsFailure;
   scenario: string;
 }
 
@@ -29,32 +27,6 @@ class Scenario4Tester {
   private results: TestResult[] = [];
   private subscriberProcess: ChildProcess | null = null;
 
-  private users: { [key: string]: UserConfig } = {
-    foo: {
-      name: "Foo",
-      certFile: "./certs/foo-cert.pem",
-      keyFile: "./certs/foo-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    },
-    bar: {
-      name: "Bar",
-      certFile: "./certs/bar-cert.pem",
-      keyFile: "./certs/bar-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    },
-    mmm: {
-      name: "MMM",
-      certFile: "./certs/mmm-cert.pem",
-      keyFile: "./certs/mmm-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    }
-  };
-
-  private clusters = {
-    main: { url: "tls://localhost:4222", name: "main" },
-    leaf: { url: "tls://localhost:4223", name: "leaf" }
-  };
-
   async runTest() {
     console.log("🚀 NATS Scenario 4 Test - Request-Reply with Leaf Node Architecture");
     console.log("===================================================================");
@@ -65,12 +37,9 @@ class Scenario4Tester {
     console.log("   - Bar can successfully request rpc.hello.world via leaf cluster");
     console.log("");
 
-    // Start a subscriber to handle requests
+    // Start a subscriber to handle requests; returns once its handlers are registered
     await this.startSubscriber();
 
-    // Wait for subscriber to initialize
-    await this.sleep(3000);
-
     console.log("🧪 Test Phase 1: Traditional Single Cluster (like Scenarios 1 & 2)");
     console.log("================================================================");
     await this.testSingleCluster();
@@ -90,23 +59,29 @@ class Scenario4Tester {
   private async startSubscriber(): Promise<void> {
     console.log("🎧 Starting Foo subscriber on main cluster...");
     
-    this.subscriberProcess = spawn("npx", ["tsx", "request-reply-leaf-subscriber.ts", "foo", "main"], {
+    this.subscriberProcess = spawn("npx", ["tsx", "request-reply-leaf-subscriber.ts", "foo", "main", JSON_FLAG], {
       stdio: ["pipe", "pipe", "pipe"]
     });
 
-    if (this.subscriberProcess.stdout) {
-      this.subscriberProcess.stdout.on('data', (data) => {
-        // Suppress subscriber output during test
-      });
-    }
+    // In --json mode the subscriber's console output goes to stderr; keep it for diagnostics
+    let subscriberOutput = "";
+    this.subscriberProcess.stderr?.on('data', (data) => {
+      subscriberOutput += data.toString();
+    });
 
-    if (this.subscriberProcess.stderr) {
-      this.subscriberProcess.stderr.on('data', (data) => {
-        console.log(`   📋 Subscriber: ${data.toString().trim()}`);
-      });
+    const startTime = Date.now();
+    try {
+      await waitForReady(this.subscriberProcess.stdout!, "foo");
+    } catch (error) {
+      console.log(`   ❌ ${error.message}`);
+      for (const line of subscriberOutput.trim().split('\n').slice(-10)) {
+        console.log(`   📋 Subscriber: ${line}`);
+      }
+      await this.cleanup();
+      throw error;
     }
 
-    console.log("   ✅ Subscriber started");
+    console.log(`   ✅ Subscriber ready in ${Date.now() - startTime}ms`);
   }
 
   private async testSingleCluster(): Promise<void> {
@@ -122,8 +97,13 @@ class Scenario4Tester {
     await this.testRequest("bar", "main", "rpc.hello.world", "Traditional - Bar fails");
 
     console.log("\n📋 Single Cluster Results:");
-    console.log("   ✅ Foo: Success (has permissions)");
-    console.log("   ❌ Bar: NoResponder error (needs application fallback)");
+    this.results.filter(r => r.scenario.includes("Traditional")).forEach(result => {
+      if (result.success) {
+        console.log(`   ✅ ${result.user}: Success (has permissions)`);
+      } else {
+        console.log(`   ❌ ${result.user}: ${result.failure ? failureLabel(result.failure) : "Error"} (needs application fallback)`);
+      }
+    });
   }
 
   private async testLeafArchitecture(): Promise<void> {
@@ -149,8 +129,8 @@ class Scenario4Tester {
   }
 
   private async testRequest(userName: string, clusterName: string, subject: string, scenario: string): Promise<void> {
-    const user = this.users[userName];
-    const cluster = this.clusters[clusterName as keyof typeof this.clusters];
+    const user = getUser(userName);
+    const cluster = getCluster(clusterName);
     
     console.log(`   👤 User: ${user.name}`);
     console.log(`   🏠 Cluster: ${cluster.name} (${cluster.url})`);
@@ -159,37 +139,26 @@ class Scenario4Tester {
     const startTime = Date.now();
     
     try {
-      const nc = await connect({
-        servers: [cluster.url],
-        tls: {
-          cert: readFileSync(user.certFile),
-          key: readFileSync(user.keyFile),
-          ca: readFileSync(user.caFile)
-        },
-        name: `scenario4_test_${userName}_${clusterName}`,
-        timeout: 5000
-      });
+      const nc = await connect(buildConnectionOptions(user, cluster, {
+        name: `scenario4_test_${userName}_${clusterName}`
+      }));
 
-      const messageData = JSON.stringify({
-        message: `Test from ${userName} via ${clusterName} cluster`,
-        user: userName,
-        timestamp: new Date().toISOString(),
-        scenario: scenario,
-        testId: Math.random().toString(36).substr(2, 9)
-      });
+      const envelope = envelopeHeaders({ user: user.name, cluster: clusterName, scenario });
 
       console.log(`   ⏳ Sending request...`);
       
-      const response = await nc.request(subject, messageData, { timeout: 5000 });
+      const response = await nc.request(subject, `Test from ${userName} via ${clusterName} cluster`, { timeout: 5000, headers: envelope });
       const responseTime = Date.now() - startTime;
       
-      const responseData = JSON.parse(response.string());
+      // Throws on an error reply; who answered is in the reply's envelope
+      decodeReply(response);
+      const responder = readEnvelope(response.headers);
       
       console.log(`   ✅ SUCCESS! Response received in ${responseTime}ms`);
-      console.log(`   📄 Responded by: ${responseData.respondedBy}`);
-      console.log(`   🌉 Response from: ${responseData.respondedFrom} cluster`);
+      console.log(`   📄 Responded by: ${responder.user}`);
+      console.log(`   🌉 Response from: ${responder.cluster} cluster`);
       
-      if (clusterName === "leaf" && responseData.respondedFrom === "main") {
+      if (clusterName === "leaf" && responder.cluster === "main") {
         console.log(`   🌟 Cross-cluster communication confirmed! (leaf → main)`);
       }
 
@@ -206,7 +175,8 @@ class Scenario4Tester {
 
     } catch (error) {
       const responseTime = Date.now() - startTime;
-      console.log(`   ❌ FAILED: ${error.message}`);
+      const failure = classifyNatsError(error);
+      console.log(`   ❌ FAILED: ${failureLabel(failure)} - ${failure.message}`);
       
       this.results.push({
         user: userName,
@@ -214,7 +184,8 @@ class Scenario4Tester {
         subject,
         success: false,
         responseTime,
-        error: error.message,
+        error: failure.message,
+        failure,
         scenario
       });
     }
@@ -232,7 +203,7 @@ class Scenario4Tester {
     console.log("│ Traditional Single Cluster (Scenarios 1 & 2):                 │");
     traditionalResults.forEach(result => {
       const status = result.success ? "✅" : "❌";
-      const reason = result.success ? "Works" : (result.error?.includes("no responders") ? "NoResponder" : "Error");
+      const reason = result.success ? "Works" : (result.failure ? failureLabel(result.failure) : "Error");
       console.log(`│   ${status} ${result.user} → ${result.cluster} → ${reason.padEnd(20)} │`);
     });
     
@@ -292,38 +263,15 @@ async function main() {
   console.log("🔍 Checking prerequisites...");
   
   // Check if clusters are running
-  try {
-    const mainCluster = await connect({ 
-      servers: ["tls://localhost:4222"],
-      tls: {
-        cert: readFileSync("./certs/foo-cert.pem"),
-        key: readFileSync("./certs/foo-key.pem"), 
-        ca: readFileSync("./certs/ca-cert.pem")
-      },
-      timeout: 2000
-    });
-    await mainCluster.close();
-    console.log("✅ Main cluster (4222) is running");
-  } catch {
-    console.log("❌ Main cluster not running. Start with: ./start-clusters.sh");
-    process.exit(1);
-  }
-
-  try {
-    const leafCluster = await connect({
-      servers: ["tls://localhost:4223"],
-      tls: {
-        cert: readFileSync("./certs/foo-cert.pem"),
-        key: readFileSync("./certs/foo-key.pem"),
-        ca: readFileSync("./certs/ca-cert.pem")
-      },
-      timeout: 2000
-    });
-    await leafCluster.close();
-    console.log("✅ Leaf cluster (4223) is running");
-  } catch {
-    console.log("❌ Leaf cluster not running. Start with: ./start-clusters.sh");
-    process.exit(1);
+  for (const cluster of listClusters()) {
+    try {
+      const nc = await connect(buildConnectionOptions(getUser("foo"), cluster, { timeout: 2000 }));
+      await nc.close();
+      console.log(`✅ ${cluster.description} (${cluster.url}) is running`);
+    } catch {
+      console.log(`❌ ${cluster.description} not running. Start with: ./start-clusters.sh`);
+      process.exit(1);
+    }
   }
 
   console.log("");
@@ -17,6 +17,12 @@ if [ ! -d "certs" ]; then
     exit 1
 fi
 
+# The leaf link authenticates with its own certificate (nats-topology.json linkIdentities)
+if [ ! -f "certs/leaf-link-cert.pem" ] || [ ! -f "certs/leaf-link-key.pem" ]; then
+    echo "❌ Leaf link certificate not found. Rerun ./setup-tls.sh to issue it"
+    exit 1
+fi
+
 # Check if NATS server is available
 if ! command -v nats-server &> /dev/null; then
     echo "❌ nats-server not found. Please install NATS server first."
@@ -72,6 +78,7 @@ NC='\033[0m' # No Color
 echo ""
 echo -e "${BLUE}🎯 Architecture Overview:${NC}"
 echo "   Main Cluster (4222) ←→ Leaf Cluster (4223)"
+echo "   (leaf link over TLS as leaf-link@localhost, replicating rpc.> broad.rpc.> broadcast.> announce.> alert.> _INBOX.>)"
 echo "   │                        │"
 echo "   ├─ Foo ✅               ├─ Foo ✅"
 echo "   ├─ Bar ❌               ├─ Bar ✅ (Fallback!)"
@@ -113,7 +120,7 @@ sleep 2
 echo -e "${BLUE}🌿 Starting Leaf Cluster (Broadcast Relay)${NC}"
 echo "   Port: 4223 (TLS)"
 echo "   Monitoring: http://localhost:8223"
-echo "   Leaf node: 7423"
+echo "   Leaf node: 7423 (TLS, verify_and_map)"
 nats-server -c nats-leaf-cluster.conf &
 LEAF_PID=$!
 
@@ -3,60 +3,54 @@
 // NATS Subscriber POC - Dual Subscription Test
 // This script subscribes to multiple subjects and processes incoming messages
 
-import { connect, ConnectionOptions, NatsConnection, Subscription } from "nats";
-import { readFileSync } from "fs";
-
-interface UserConfig {
-  name: string;
-  certFile: string;
-  keyFile: string;
-  caFile: string;
-  server: string;
-}
+import { connect, ConnectionOptions, NatsConnection } from "nats";
+import { UserConfig, ClusterInfo, getUser, getCluster, buildConnectionOptions } from "./nats-topology.js";
+import { PermissionDeniedError, classifyNatsError } from "./nats-errors.js";
+import { emit, initEventOutput } from "./nats-events.js";
+import { NatsService, ServiceRequest } from "./nats-service.js";
+import { describeOrigin, readEnvelope } from "./nats-envelope.js";
+import { CONTENT_TYPE_HEADER, CodecRegistry, DEFAULT_PROTO_FILE, PROTO_FLAG, describePayload, parseCodecArgs } from "./nats-codecs.js";
 
 interface SubscriberConfig {
   user: UserConfig;
+  cluster: ClusterInfo;
   subjects: string[];
   scenario: string;
 }
 
 class NATSSubscriber {
   private nc: NatsConnection | null = null;
-  private subscriptions: Subscription[] = [];
+  private service: NatsService | null = null;
   private messageCount = 0;
   private config: SubscriberConfig;
 
-  constructor(config: SubscriberConfig) {
+  constructor(config: SubscriberConfig, private payloads: CodecRegistry) {
     this.config = config;
   }
 
   async connect(): Promise<void> {
     try {
-      const opts: ConnectionOptions = {
-        servers: [this.config.user.server],
-        tls: {
-          cert: readFileSync(this.config.user.certFile),
-          key: readFileSync(this.config.user.keyFile),
-          ca: readFileSync(this.config.user.caFile)
-        },
+      const opts: ConnectionOptions = buildConnectionOptions(this.config.user, this.config.cluster, {
         name: `${this.config.user.name}_subscriber_${this.config.scenario}`,
-        timeout: 5000,
         reconnect: true,
         maxReconnectAttempts: 5,
         verbose: false,
         debug: false
-      };
+      });
 
       console.log(`🔌 Connecting to NATS server as user: ${this.config.user.name}`);
       this.nc = await connect(opts);
       
       console.log(`✅ Connected to NATS server: ${this.nc.getServer()}`);
+      emit({ event: "connected", user: this.config.user.id, cluster: this.config.cluster.name, url: this.config.cluster.url });
       
       // Monitor connection status
       this.monitorConnection();
       
     } catch (error) {
+      const failure = classifyNatsError(error);
       console.error(`❌ Failed to connect to NATS server:`, error);
+      emit({ event: "connect_failed", user: this.config.user.id, cluster: this.config.cluster.name, failure: failure.kind, message: failure.message });
       throw error;
     }
   }
@@ -89,88 +83,104 @@ class NATSSubscriber {
 
     console.log(`📝 Setting up subscriptions for subjects: ${this.config.subjects.join(', ')}`);
 
+    const context = { cluster: this.config.cluster.name, user: this.config.user.name };
+    this.service = new NatsService(this.nc, {
+      name: `${this.config.user.id}-subscriber`,
+      version: "1.0.0",
+      description: this.config.scenario,
+      context,
+      replyEnvelope: () => ({ user: this.config.user.name, cluster: this.config.cluster.name }),
+      onReply: (request) => {
+        console.log(`✅ Sent reply to: ${request.reply}`);
+        emit({ event: "reply_sent", user: this.config.user.id, cluster: this.config.cluster.name, subject: request.subject, replyTo: request.reply! });
+        console.log('');
+      },
+      onError: (request, error) => {
+        console.error(`❌ Failed to handle message on ${request.subject}: ${error.message}`);
+      }
+    });
+
     for (const subject of this.config.subjects) {
       try {
-        const sub = this.nc.subscribe(subject);
-        this.subscriptions.push(sub);
+        // Replies, if the message asked for one, are sent by the service
+        await this.service.handle(subject, (request) => this.processMessage(request), { payloads: this.payloads });
 
         console.log(`✅ Subscribed to: ${subject}`);
-
-        // Process messages for this subscription
-        this.processMessages(sub, subject);
+        emit({ event: "subscribed", user: this.config.user.id, cluster: this.config.cluster.name, subject });
 
       } catch (error) {
+        if (error instanceof PermissionDeniedError) {
+          // Keep the subscriptions that were accepted; report the denied ones
+          console.log(`🚫 Subscription denied: ${subject} (${this.config.user.name} lacks subscribe permission on ${this.config.cluster.name} cluster)`);
+          emit({ event: "subscribe_denied", user: this.config.user.id, cluster: this.config.cluster.name, subject });
+          continue;
+        }
         console.error(`❌ Failed to subscribe to ${subject}:`, error);
         throw error;
       }
     }
 
-    console.log(`🎯 All subscriptions active. Waiting for messages...`);
+    const subjects = this.service.subjects;
+    if (subjects.length === 0) {
+      throw new Error(`All subscriptions were denied for ${this.config.user.name}`);
+    }
+    if (await this.service.start()) {
+      console.log(`🔍 Discoverable as ${this.service.info().name} (id ${this.service.id}) via $SRV.PING/INFO/STATS`);
+    }
+
+    // checkedSubscribe() has already flushed each subscription
+    emit({ event: "ready", user: this.config.user.id, cluster: this.config.cluster.name, subjects });
+
+    console.log(`🎯 ${subjects.length}/${this.config.subjects.length} subscriptions active. Waiting for messages...`);
     console.log(`📊 Scenario: ${this.config.scenario}`);
     console.log(`👤 User: ${this.config.user.name}`);
-    console.log(`🔍 Monitoring subjects: ${this.config.subjects.join(', ')}`);
+    console.log(`🔍 Monitoring subjects: ${subjects.join(', ')}`);
     console.log('');
   }
 
-  private async processMessages(sub: Subscription, subject: string): Promise<void> {
-    try {
-      for await (const msg of sub) {
-        this.messageCount++;
-        
-        const timestamp = new Date().toISOString();
-        const msgData = msg.string();
-        const reply = msg.reply || 'N/A';
-        
-        console.log(`📨 [${timestamp}] Message #${this.messageCount}`);
-        console.log(`   📍 Subject: ${msg.subject}`);
-        console.log(`   🎯 Subscribed via: ${subject}`);
-        console.log(`   📄 Data: ${msgData}`);
-        console.log(`   🔄 Reply-To: ${reply}`);
-        console.log(`   👤 User: ${this.config.user.name}`);
-        console.log('');
-
-        // If this is a request message, send a reply
-        if (msg.reply) {
-          try {
-            const replyData = JSON.stringify({
-              status: 'received',
-              user: this.config.user.name,
-              receivedSubject: msg.subject,
-              subscribedVia: subject,
-              timestamp: timestamp,
-              originalData: msgData
-            });
-
-            this.nc!.publish(msg.reply, replyData);
-            console.log(`✅ Sent reply to: ${msg.reply}`);
-            console.log('');
-          } catch (replyError) {
-            console.error(`❌ Failed to send reply:`, replyError);
-          }
-        }
+  // request.data is decoded by its Content-Type: bytes for unlabelled and raw payloads
+  private processMessage(request: ServiceRequest<unknown>) {
+    this.messageCount++;
+
+    const timestamp = new Date().toISOString();
+    const origin = readEnvelope(request.headers);
+    emit({ event: "message_received", user: this.config.user.id, cluster: this.config.cluster.name, subject: request.subject, pattern: request.pattern });
+
+    console.log(`📨 [${timestamp}] Message #${this.messageCount}`);
+    console.log(`   📍 Subject: ${request.subject}`);
+    console.log(`   🎯 Subscribed via: ${request.pattern}`);
+    console.log(`   📄 Data: ${describePayload(request.data)}`);
+    console.log(`   🧬 Content-Type: ${request.headers?.get(CONTENT_TYPE_HEADER) || 'none (raw bytes)'}`);
+    console.log(`   📬 From: ${describeOrigin(origin)}${origin.timestamp ? ` at ${origin.timestamp}` : ''}`);
+    if (origin.hop && origin.hop > 1) {
+      console.log(`   🔀 Fallback hop ${origin.hop} (originally ${origin.originalSubject ?? 'unknown'})`);
+    }
+    console.log(`   🔄 Reply-To: ${request.reply || 'N/A'}`);
+    console.log(`   👤 User: ${this.config.user.name}`);
+    console.log('');
 
-        // Display statistics every 10 messages
-        if (this.messageCount % 10 === 0) {
-          console.log(`📊 Statistics: ${this.messageCount} messages processed`);
-          console.log('');
-        }
-      }
-    } catch (error) {
-      console.error(`❌ Error processing messages for ${subject}:`, error);
+    // Display statistics every 10 messages
+    if (this.messageCount % 10 === 0) {
+      console.log(`📊 Statistics: ${this.messageCount} messages processed`);
+      console.log('');
     }
+
+    // Who answered, and from where, goes back in the reply's headers (replyEnvelope)
+    return {
+      status: 'received',
+      receivedSubject: request.subject,
+      subscribedVia: request.pattern,
+      originalData: request.data instanceof Uint8Array ? describePayload(request.data) : request.data
+    };
   }
 
   async gracefulShutdown(): Promise<void> {
     console.log('🛑 Initiating graceful shutdown...');
 
-    // Unsubscribe from all subjects
-    for (const sub of this.subscriptions) {
-      try {
-        await sub.unsubscribe();
-        console.log(`✅ Unsubscribed from: ${sub.getSubject()}`);
-      } catch (error) {
-        console.error(`❌ Error unsubscribing from ${sub.getSubject()}:`, error);
-      }
+    // Stop taking requests and answer the ones in progress
+    if (this.service) {
+      await this.service.stop();
+      console.log(`✅ Unsubscribed from: ${this.service.subjects.join(', ')}`);
     }
 
     // Close connection
@@ -184,6 +194,7 @@ class NATSSubscriber {
     }
 
     console.log(`📊 Final Statistics: ${this.messageCount} messages processed`);
+    emit({ event: "closed", user: this.config.user.id, cluster: this.config.cluster.name, messages: this.messageCount });
     console.log('👋 Subscriber stopped');
   }
 }
@@ -191,37 +202,34 @@ class NATSSubscriber {
 // Configuration for different scenarios
 const scenarios: Record<string, SubscriberConfig> = {
   'scenario1': {
-    user: {
-      name: 'Foo',
-      certFile: './certs/foo-cert.pem',
-      keyFile: './certs/foo-key.pem',
-      caFile: './certs/ca-cert.pem',
-      server: 'tls://localhost:4222'
-    },
+    user: getUser('foo'),
+    cluster: getCluster('main'),
     subjects: ['rpc.hello.world', 'broad.rpc.>'],
     scenario: 'Scenario 1 - Foo user dual subscription'
   },
   'scenario2': {
-    user: {
-      name: 'Bar',
-      certFile: './certs/bar-cert.pem',
-      keyFile: './certs/bar-key.pem',
-      caFile: './certs/ca-cert.pem',
-      server: 'tls://localhost:4222'
-    },
+    user: getUser('bar'),
+    cluster: getCluster('main'),
     subjects: ['rpc.hello.world', 'broad.rpc.>'],
     scenario: 'Scenario 2 - Bar user dual subscription'
   }
 };
 
 async function main() {
-  const args = process.argv.slice(2);
+  let args = initEventOutput("subscriber", process.argv.slice(2));
+  let payloads: CodecRegistry;
+  try {
+    ({ registry: payloads, args } = parseCodecArgs(args));
+  } catch (error) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
   
   if (args.length === 0) {
     console.log('NATS Subscriber POC');
     console.log('==================');
     console.log('');
-    console.log('Usage: npx tsx subscriber.ts <scenario>');
+    console.log(`Usage: npx tsx subscriber.ts <scenario> [${PROTO_FLAG} <file>] [--json]`);
     console.log('');
     console.log('Available scenarios:');
     console.log('  scenario1  - Foo user (TLS cert: foo-cert.pem) subscribing to both rpc.hello.world and broad.rpc.>');
@@ -231,6 +239,9 @@ async function main() {
     console.log('  npx tsx subscriber.ts scenario1');
     console.log('  npx tsx subscriber.ts scenario2');
     console.log('');
+    console.log('Requests are decoded by their Content-Type header (JSON, MessagePack, protobuf, raw bytes);');
+    console.log(`protobuf message types come from ${PROTO_FLAG} schemas (default ${DEFAULT_PROTO_FILE})`);
+    console.log('');
     process.exit(1);
   }
 
@@ -247,10 +258,11 @@ async function main() {
   console.log('===============================');
   console.log(`📋 Scenario: ${config.scenario}`);
   console.log(`👤 User: ${config.user.name} (${config.user.certFile})`);
+  console.log(`🏠 Cluster: ${config.cluster.name} (${config.cluster.url})`);
   console.log(`🎯 Subjects: ${config.subjects.join(', ')}`);
   console.log('');
 
-  const subscriber = new NATSSubscriber(config);
+  const subscriber = new NATSSubscriber(config, payloads);
 
   // Handle graceful shutdown
   const cleanup = async () => {
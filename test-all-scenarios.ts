@@ -5,8 +5,13 @@
 // Shows how leaf node architecture eliminates permission issues for both pub-sub and request-reply patterns
 
 import { connect, ConnectionOptions, NatsConnection } from "nats";
-import { readFileSync } from "fs";
 import { spawn, ChildProcess } from "child_process";
+import { getUser, getCluster, listClusters, buildConnectionOptions } from "./nats-topology.js";
+import { NatsFailure, classifyNatsError, failureLabel } from "./nats-errors.js";
+import { JSON_FLAG, waitForReady } from "./nats-events.js";
+import { decodeReply } from "./nats-service.js";
+import { envelopeHeaders, readEnvelope } from "./nats-envelope.js";
+import { ClusterHarness, EMBEDDED_FLAG } from "./nats-server-harness.js";
 
 interface TestResult {
   scenario: string;
@@ -17,38 +22,17 @@ interface TestResult {
   success: boolean;
   responseTime: number;
   error?: string;
+  failure?: NatsFailure;
   notes?: string;
 }
 
 class AllScenariosTestSuite {
   private results: TestResult[] = [];
   private processes: ChildProcess[] = [];
+  private harness?: ClusterHarness;
 
-  private users = {
-    foo: {
-      name: "Foo",
-      certFile: "./certs/foo-cert.pem",
-      keyFile: "./certs/foo-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    },
-    bar: {
-      name: "Bar",
-      certFile: "./certs/bar-cert.pem",
-      keyFile: "./certs/bar-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    },
-    mmm: {
-      name: "MMM",
-      certFile: "./certs/mmm-cert.pem",
-      keyFile: "./certs/mmm-key.pem",
-      caFile: "./certs/ca-cert.pem"
-    }
-  };
-
-  private clusters = {
-    main: { url: "tls://localhost:4222", name: "main" },
-    leaf: { url: "tls://localhost:4223", name: "leaf" }
-  };
+  // With embedded set, the suite runs its own nats-server processes on free ports
+  constructor(private embedded = false) {}
 
   async runAllScenarios() {
     console.log("🚀 NATS Complete POC Test Suite - All Scenarios");
@@ -62,69 +46,62 @@ class AllScenariosTestSuite {
     console.log("   3. Scenario 4: Leaf node architecture for request-reply (infrastructure-level solution)");
     console.log("");
 
-    // Check prerequisites
-    if (!await this.checkPrerequisites()) {
-      process.exit(1);
-    }
+    try {
+      if (this.embedded) {
+        await this.startEmbeddedClusters();
+      }
+
+      // Check prerequisites
+      if (!await this.checkPrerequisites()) {
+        await this.cleanup();
+        process.exit(1);
+      }
 
-    // Run test phases
-    console.log("🧪 Phase 1: Traditional Single Cluster Approach (Scenarios 1 & 2)");
-    console.log("================================================================");
-    await this.testTraditionalApproach();
+      // Run test phases
+      console.log("🧪 Phase 1: Traditional Single Cluster Approach (Scenarios 1 & 2)");
+      console.log("================================================================");
+      await this.testTraditionalApproach();
 
-    console.log("\n🧪 Phase 2: Leaf Node Architecture - Pub-Sub Pattern (Scenario 3)");
-    console.log("================================================================");
-    await this.testLeafPubSub();
+      console.log("\n🧪 Phase 2: Leaf Node Architecture - Pub-Sub Pattern (Scenario 3)");
+      console.log("================================================================");
+      await this.testLeafPubSub();
 
-    console.log("\n🧪 Phase 3: Leaf Node Architecture - Request-Reply Pattern (Scenario 4)");
-    console.log("======================================================================");
-    await this.testLeafRequestReply();
+      console.log("\n🧪 Phase 3: Leaf Node Architecture - Request-Reply Pattern (Scenario 4)");
+      console.log("======================================================================");
+      await this.testLeafRequestReply();
 
-    console.log("\n📊 Complete Results Analysis");
-    console.log("============================");
-    this.displayCompleteAnalysis();
+      console.log("\n📊 Complete Results Analysis");
+      console.log("============================");
+      this.displayCompleteAnalysis();
+    } catch (error) {
+      this.harness?.printLogTail();
+      throw error;
+    } finally {
+      await this.cleanup();
+    }
+  }
 
-    // Cleanup
-    await this.cleanup();
+  private async startEmbeddedClusters(): Promise<void> {
+    console.log("🏗️  Starting embedded NATS clusters...");
+    this.harness = await ClusterHarness.start();
+    for (const line of this.harness.describe()) {
+      console.log(`✅ ${line}`);
+    }
+    console.log("");
   }
 
   private async checkPrerequisites(): Promise<boolean> {
     console.log("🔍 Checking prerequisites...");
     
-    try {
-      // Check main cluster
-      const mainCluster = await connect({ 
-        servers: [this.clusters.main.url],
-        tls: {
-          cert: readFileSync(this.users.foo.certFile),
-          key: readFileSync(this.users.foo.keyFile), 
-          ca: readFileSync(this.users.foo.caFile)
-        },
-        timeout: 2000
-      });
-      await mainCluster.close();
-      console.log("✅ Main cluster (4222) is running");
-    } catch {
-      console.log("❌ Main cluster not running. Start with: ./start-clusters.sh");
-      return false;
-    }
-
-    try {
-      // Check leaf cluster
-      const leafCluster = await connect({
-        servers: [this.clusters.leaf.url],
-        tls: {
-          cert: readFileSync(this.users.foo.certFile),
-          key: readFileSync(this.users.foo.keyFile),
-          ca: readFileSync(this.users.foo.caFile)
-        },
-        timeout: 2000
-      });
-      await leafCluster.close();
-      console.log("✅ Leaf cluster (4223) is running");
-    } catch {
-      console.log("❌ Leaf cluster not running. Start with: ./start-clusters.sh");
-      return false;
+    for (const cluster of listClusters()) {
+      try {
+        const nc = await connect(buildConnectionOptions(getUser("foo"), cluster, { timeout: 2000 }));
+        await nc.close();
+        console.log(`✅ ${cluster.description} (${cluster.url}) is running`);
+      } catch {
+        console.log(`❌ ${cluster.description} not running. Start with: ./start-clusters.sh (or rerun with ${EMBEDDED_FLAG})`);
+        return false;
+      }
     }
 
     console.log("");
@@ -137,7 +114,6 @@ class AllScenariosTestSuite {
 
     // Start a subscriber for traditional scenarios
     await this.startSubscriber("foo", "main", "traditional");
-    await this.sleep(2000);
 
     // Test Scenario 1: Bar publisher (should need fallback)
     console.log("🧪 Scenario 1 Test: Bar publisher → main cluster");
@@ -196,7 +172,6 @@ class AllScenariosTestSuite {
 
     // Start a subscriber for request-reply testing
     await this.startSubscriber("foo", "main", "requestreply");
-    await this.sleep(2000);
 
     // Test Bar via leaf cluster (infrastructure solution)
     console.log("🧪 Scenario 4 Test: Bar publisher → leaf cluster (smart routing)");
@@ -216,43 +191,32 @@ class AllScenariosTestSuite {
   }
 
   private async testRequest(scenario: string, userName: string, clusterName: string, subject: string, pattern: string, notes: string): Promise<void> {
-    const user = this.users[userName as keyof typeof this.users];
-    const cluster = this.clusters[clusterName as keyof typeof this.clusters];
+    const user = getUser(userName);
+    const cluster = getCluster(clusterName);
     
     console.log(`   👤 User: ${user.name} | 🏠 Cluster: ${cluster.name} | 🎯 Subject: ${subject}`);
 
     const startTime = Date.now();
     
     try {
-      const nc = await connect({
-        servers: [cluster.url],
-        tls: {
-          cert: readFileSync(user.certFile),
-          key: readFileSync(user.keyFile),
-          ca: readFileSync(user.caFile)
-        },
-        name: `test_${userName}_${clusterName}`,
-        timeout: 5000
-      });
+      const nc = await connect(buildConnectionOptions(user, cluster, {
+        name: `test_${userName}_${clusterName}`
+      }));
 
-      const messageData = JSON.stringify({
-        message: `Test from ${userName} via ${clusterName}`,
-        user: userName,
-        timestamp: new Date().toISOString(),
-        scenario: scenario,
-        testId: Math.random().toString(36).substr(2, 9)
-      });
+      const envelope = envelopeHeaders({ user: user.name, cluster: clusterName, scenario });
 
       console.log(`   ⏳ Sending request...`);
       
-      const response = await nc.request(subject, messageData, { timeout: 3000 });
+      const response = await nc.request(subject, `Test from ${userName} via ${clusterName}`, { timeout: 3000, headers: envelope });
       const responseTime = Date.now() - startTime;
       
-      const responseData = JSON.parse(response.string());
+      // Throws on an error reply; who answered is in the reply's envelope
+      decodeReply(response);
+      const responder = readEnvelope(response.headers);
       
-      console.log(`   ✅ SUCCESS! Response in ${responseTime}ms from ${responseData.respondedBy}`);
+      console.log(`   ✅ SUCCESS! Response in ${responseTime}ms from ${responder.user}`);
       
-      if (clusterName === "leaf" && responseData.respondedFrom === "main") {
+      if (clusterName === "leaf" && responder.cluster === "main") {
         console.log(`   🌉 Cross-cluster communication confirmed! (leaf → main)`);
       }
 
@@ -271,7 +235,8 @@ class AllScenariosTestSuite {
 
     } catch (error) {
       const responseTime = Date.now() - startTime;
-      console.log(`   ❌ FAILED: ${error.message} (${responseTime}ms)`);
+      const failure = classifyNatsError(error);
+      console.log(`   ❌ FAILED: ${failureLabel(failure)} - ${failure.message} (${responseTime}ms)`);
       
       this.results.push({
         scenario,
@@ -281,31 +246,25 @@ class AllScenariosTestSuite {
         pattern,
         success: false,
         responseTime,
-        error: error.message,
+        error: failure.message,
+        failure,
         notes
       });
     }
   }
 
   private async testConnection(scenario: string, userName: string, clusterName: string, subject: string, pattern: string, notes: string): Promise<void> {
-    const user = this.users[userName as keyof typeof this.users];
-    const cluster = this.clusters[clusterName as keyof typeof this.clusters];
+    const user = getUser(userName);
+    const cluster = getCluster(clusterName);
     
     console.log(`   👤 ${user.name} → ${cluster.name} cluster`);
 
     const startTime = Date.now();
     
     try {
-      const nc = await connect({
-        servers: [cluster.url],
-        tls: {
-          cert: readFileSync(user.certFile),
-          key: readFileSync(user.keyFile),
-          ca: readFileSync(user.caFile)
-        },
-        name: `conn_test_${userName}_${clusterName}`,
-        timeout: 5000
-      });
+      const nc = await connect(buildConnectionOptions(user, cluster, {
+        name: `conn_test_${userName}_${clusterName}`
+      }));
 
       // Test subscription capability
       const sub = nc.subscribe(subject, { max: 1 });
@@ -320,26 +279,39 @@ class AllScenariosTestSuite {
 
     } catch (error) {
       const responseTime = Date.now() - startTime;
-      console.log(`   ❌ Connection failed: ${error.message} (${responseTime}ms)`);
+      const failure = classifyNatsError(error);
+      console.log(`   ❌ ${failureLabel(failure)}: ${failure.message} (${responseTime}ms)`);
     }
   }
 
   private async startSubscriber(user: string, cluster: string, id: string): Promise<void> {
     console.log(`🎧 Starting ${user} subscriber on ${cluster} cluster (${id})...`);
     
-    const process = spawn("npx", ["tsx", "request-reply-leaf-subscriber.ts", user, cluster], {
+    const process = spawn("npx", ["tsx", "request-reply-leaf-subscriber.ts", user, cluster, JSON_FLAG], {
       stdio: ["pipe", "pipe", "pipe"]
     });
 
     this.processes.push(process);
 
-    if (process.stdout) {
-      process.stdout.on('data', () => {
-        // Suppress output during testing
-      });
+    // In --json mode the subscriber's console output goes to stderr; keep it for diagnostics
+    let output = "";
+    process.stderr?.on('data', (data) => {
+      output += data.toString();
+    });
+
+    // Wait for the subscriber to confirm its handlers instead of sleeping
+    const startTime = Date.now();
+    try {
+      await waitForReady(process.stdout!, user);
+    } catch (error) {
+      console.log(`   ❌ ${error.message}`);
+      for (const line of output.trim().split('\n').slice(-10)) {
+        console.log(`   📋 Subscriber: ${line}`);
+      }
+      throw error;
     }
 
-    console.log(`   ✅ Subscriber started`);
+    console.log(`   ✅ Subscriber ready in ${Date.now() - startTime}ms`);
   }
 
   private async stopSubscriber(id: string): Promise<void> {
@@ -359,7 +331,8 @@ class AllScenariosTestSuite {
     results.forEach(result => {
       const status = result.success ? "✅" : "❌";
       const time = result.responseTime > 0 ? `${result.responseTime}ms` : "N/A";
-      console.log(`   ${status} ${result.user} → ${result.cluster} (${time}) ${result.notes || ''}`);
+      const reason = result.failure ? ` [${failureLabel(result.failure)}]` : '';
+      console.log(`   ${status} ${result.user} → ${result.cluster} (${time}) ${result.notes || ''}${reason}`);
     });
   }
 
@@ -378,7 +351,7 @@ class AllScenariosTestSuite {
     
     scenario1and2.forEach(result => {
       const status = result.success ? "✅" : "❌";
-      const reason = result.success ? "Works" : "Needs fallback";
+      const reason = result.success ? "Works" : `${result.failure ? failureLabel(result.failure) : "Error"}, needs fallback`;
       console.log(`│    ${status} ${result.user.padEnd(3)} → ${result.cluster} → ${reason.padEnd(20)} │`);
     });
     
@@ -427,7 +400,8 @@ class AllScenariosTestSuite {
     console.log("   permission-based message failures.");
   }
 
-  private async cleanup(): Promise<void> {
+  // Safe to call more than once; also used by the SIGINT handler
+  async cleanup(): Promise<void> {
     console.log("\n🧹 Cleaning up test processes...");
     
     // Kill any remaining processes
@@ -438,6 +412,12 @@ class AllScenariosTestSuite {
     }
     
     await this.sleep(1000);
+
+    if (this.harness) {
+      await this.harness.stop();
+      this.harness = undefined;
+      console.log("✅ Embedded clusters stopped");
+    }
     console.log("✅ Cleanup completed");
   }
 
@@ -447,12 +427,12 @@ class AllScenariosTestSuite {
 }
 
 async function main() {
-  const testSuite = new AllScenariosTestSuite();
+  const testSuite = new AllScenariosTestSuite(process.argv.slice(2).includes(EMBEDDED_FLAG));
   
   // Handle Ctrl+C gracefully
   process.on('SIGINT', async () => {
     console.log("\n🛑 Test suite interrupted by user");
-    await testSuite['cleanup']();
+    await testSuite.cleanup();
     process.exit(0);
   });
 